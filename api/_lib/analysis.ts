@@ -0,0 +1,91 @@
+/**
+ * Per-image analysis shared by /api/vision and /api/plan: every image
+ * described by the provider a few at a time, with subject boxes clamped.
+ * A failed image gets a neutral frame whose `failure` says whether it timed
+ * out, hit an HTTP error or came back unparseable, so one bad image never
+ * fails the batch.
+ */
+
+import { forEachConcurrent } from "./concurrency";
+import { OpenAIHttpError, OpenAIResponseError, OpenAITimeoutError } from "./openai";
+import type { AIProvider, ImageDescription, ProviderImage, SubjectBox } from "./provider";
+
+// Boxes are clamped to the image and empty ones dropped, whichever
+// provider produced them. Coordinates are 0-1
+function clampSubjects(subjects: SubjectBox[]): SubjectBox[] {
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  return subjects.slice(0, 3).flatMap(({ label, box }) => {
+    const x = clamp(box.x);
+    const y = clamp(box.y);
+    const width = Math.min(clamp(box.width), 1 - x);
+    const height = Math.min(clamp(box.height), 1 - y);
+    if (width <= 0 || height <= 0) return [];
+    return [{ label, box: { x, y, width, height } }];
+  });
+}
+
+export type FailureKind = 'timeout' | 'http' | 'parse' | 'error';
+
+export interface VisionFailure {
+  kind: FailureKind;
+  message: string;
+  /** OpenAI's status, for HTTP failures. */
+  status?: number;
+}
+
+export type VisionFrame = ImageDescription & { index: number; failure?: VisionFailure };
+
+function describeFailure(error: unknown): VisionFailure {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof OpenAITimeoutError) return { kind: 'timeout', message };
+  if (error instanceof OpenAIHttpError) return { kind: 'http', message, status: error.upstreamStatus };
+  if (error instanceof OpenAIResponseError) return { kind: 'parse', message };
+  return { kind: 'error', message };
+}
+
+const FAILURE_NOTES: Record<FailureKind, string> = {
+  timeout: 'Analysis timed out',
+  http: 'Analysis failed',
+  parse: 'Parse error',
+  error: 'Analysis error'
+};
+
+function fallbackFrame(index: number, failure: VisionFailure): VisionFrame {
+  return {
+    index,
+    tags: [],
+    mood: 'unknown',
+    subject: 'unknown',
+    qualityNotes: failure.status ? `${FAILURE_NOTES[failure.kind]} (HTTP ${failure.status})` : FAILURE_NOTES[failure.kind],
+    suggestedRole: 'middle',
+    subjects: [],
+    failure
+  };
+}
+
+/**
+ * Describe every item with at most `concurrency` in flight, passing each
+ * frame to `onFrame` as it completes. Once `signal` aborts, calls in
+ * flight are cancelled and no further frames are produced. Never rejects.
+ */
+export function analyseImages(
+  provider: AIProvider,
+  items: Array<{ index: number; image: ProviderImage }>,
+  concurrency: number,
+  onFrame: (frame: VisionFrame) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  return forEachConcurrent(items, concurrency, async ({ index, image }) => {
+    if (signal?.aborted) return;
+    try {
+      const parsed = await provider.describeImage(image, signal);
+      if (signal?.aborted) return;
+      onFrame({ index, ...parsed, subjects: clampSubjects(parsed.subjects) });
+    } catch (error) {
+      if (signal?.aborted) return;
+      const failure = describeFailure(error);
+      console.error(`[VISION] Error analyzing image ${index} (${failure.kind}):`, failure.message);
+      onFrame(fallbackFrame(index, failure));
+    }
+  });
+}
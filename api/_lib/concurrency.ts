@@ -0,0 +1,20 @@
+/**
+ * Run `task` for every item with at most `limit` in flight, starting the
+ * next item as soon as one finishes. Resolves once all have settled; tasks
+ * should handle their own errors, as the first rejection rejects the whole
+ * run while the other workers carry on.
+ */
+export async function forEachConcurrent<T>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+}
@@ -0,0 +1,70 @@
+/**
+ * AI configuration for the serverless functions, read from the environment
+ * on each request so a redeploy is not needed to switch provider.
+ *
+ *   AI_PROVIDER                 "openai" (default) or "local", the offline heuristic
+ *   OPENAI_MODEL                model for both operations (default gpt-4.1-mini)
+ *   OPENAI_MAX_ATTEMPTS         attempts per call including retries (default 3)
+ *   SEQUENCE_MAX_OUTPUT_TOKENS  default 800
+ *   SEQUENCE_TIMEOUT_MS         default 45000
+ *   VISION_MAX_OUTPUT_TOKENS    default 600
+ *   VISION_TIMEOUT_MS           per image, default 30000
+ *   VISION_CONCURRENCY          images analysed at once, default 4
+ */
+
+import { DEFAULT_MODEL } from "./openai";
+
+export type ProviderName = "openai" | "local";
+
+export interface OperationLimits {
+  maxOutputTokens: number;
+  timeoutMs: number;
+}
+
+export interface VisionLimits extends OperationLimits {
+  concurrency: number;
+}
+
+export interface AIConfig {
+  provider: ProviderName;
+  model: string;
+  maxAttempts: number;
+  sequence: OperationLimits;
+  vision: VisionLimits;
+}
+
+const PROVIDERS: ProviderName[] = ["openai", "local"];
+
+function positiveInt(env: NodeJS.ProcessEnv, key: string, fallback: number): number {
+  const raw = env[key];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (Number.isInteger(value) && value > 0) return value;
+  console.warn(`[CONFIG] ${key}=${raw} is not a positive integer; using ${fallback}`);
+  return fallback;
+}
+
+export function loadAIConfig(env: NodeJS.ProcessEnv = process.env): AIConfig {
+  const requested = env.AI_PROVIDER?.trim().toLowerCase();
+  let provider: ProviderName = "openai";
+  if (requested && PROVIDERS.includes(requested as ProviderName)) {
+    provider = requested as ProviderName;
+  } else if (requested) {
+    console.warn(`[CONFIG] Unknown AI_PROVIDER "${requested}"; using openai`);
+  }
+
+  return {
+    provider,
+    model: env.OPENAI_MODEL?.trim() || DEFAULT_MODEL,
+    maxAttempts: positiveInt(env, "OPENAI_MAX_ATTEMPTS", 3),
+    sequence: {
+      maxOutputTokens: positiveInt(env, "SEQUENCE_MAX_OUTPUT_TOKENS", 800),
+      timeoutMs: positiveInt(env, "SEQUENCE_TIMEOUT_MS", 45000),
+    },
+    vision: {
+      maxOutputTokens: positiveInt(env, "VISION_MAX_OUTPUT_TOKENS", 600),
+      timeoutMs: positiveInt(env, "VISION_TIMEOUT_MS", 30000),
+      concurrency: positiveInt(env, "VISION_CONCURRENCY", 4),
+    },
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * Shared OpenAI Responses API client for the serverless functions.
+ * Requests ask for JSON-schema structured output, so the reply is
+ * guaranteed to match the schema and is returned parsed and typed. 429 and
+ * 5xx responses are retried with exponential backoff, honouring
+ * Retry-After, until the request's deadline. Failures are thrown as
+ * OpenAIError subclasses, each carrying the HTTP status a handler should
+ * answer with; errorResponse turns any error into that response.
+ */
+
+export const OPENAI_RESPONSES_URL = "https://api.openai.com/v1/responses";
+export const DEFAULT_MODEL = "gpt-4.1-mini";
+
+export type InputContent =
+  | { type: "input_text"; text: string }
+  | { type: "input_image"; image_url: string };
+
+export interface InputMessage {
+  role: "system" | "user";
+  content: InputContent[];
+}
+
+/** A JSON schema in the strict subset structured outputs accept. */
+export interface JsonSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface StructuredRequest {
+  model?: string;
+  input: InputMessage[];
+  schema: JsonSchema;
+  maxOutputTokens: number;
+  /** Deadline for the whole call, retries and waits included. */
+  timeoutMs: number;
+  /** Attempts in total, including the first. */
+  maxAttempts?: number;
+  /** Cancels the call, e.g. when the client goes away; it then rejects with the signal's reason. */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+
+/** Base class; `status` is the HTTP status to answer the client with. */
+export class OpenAIError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "OpenAIError";
+  }
+}
+
+/** OPENAI_API_KEY is not set. */
+export class OpenAIConfigError extends OpenAIError {
+  constructor(message: string) {
+    super(message, 500);
+    this.name = "OpenAIConfigError";
+  }
+}
+
+/** The deadline passed before OpenAI answered. */
+export class OpenAITimeoutError extends OpenAIError {
+  constructor(timeoutMs: number) {
+    super(`OpenAI did not respond within ${timeoutMs}ms`, 504);
+    this.name = "OpenAITimeoutError";
+  }
+}
+
+/** OpenAI answered with an error status, after any retries. */
+export class OpenAIHttpError extends OpenAIError {
+  constructor(
+    readonly upstreamStatus: number,
+    readonly body: string,
+    /** Seconds OpenAI asked us to wait, for a 429. */
+    readonly retryAfterSeconds?: number
+  ) {
+    // Upstream rate limits are passed on; anything else is a bad gateway
+    super(`OpenAI request failed with status ${upstreamStatus}`, upstreamStatus === 429 ? 503 : 502);
+    this.name = "OpenAIHttpError";
+  }
+}
+
+/** The response arrived but held no usable output: a refusal, a cut-off reply or invalid JSON. */
+export class OpenAIResponseError extends OpenAIError {
+  constructor(message: string, readonly snippet?: string) {
+    super(message, 502);
+    this.name = "OpenAIResponseError";
+  }
+}
+
+export function openaiApiKey(): string {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) throw new OpenAIConfigError("OPENAI_API_KEY is not set");
+  return apiKey;
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/** Retry-After as seconds or an HTTP date, or OpenAI's retry-after-ms; undefined when absent. */
+function retryAfterMs(headers: Headers): number | undefined {
+  const ms = Number(headers.get("retry-after-ms"));
+  if (Number.isFinite(ms) && ms > 0) return ms;
+
+  const value = headers.get("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoffMs(attempt: number): number {
+  const exponential = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  // Full jitter keeps concurrent invocations from retrying in lockstep
+  return Math.random() * exponential;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", abort, { once: true });
+  });
+}
+
+interface ResponsesBody {
+  status?: string;
+  incomplete_details?: { reason?: string } | null;
+  output?: Array<{
+    type: string;
+    content?: Array<{ type: string; text?: string; refusal?: string }>;
+  }>;
+}
+
+/** Concatenated output text of a Responses API reply; throws on refusals and cut-off replies. */
+function outputText(body: ResponsesBody): string {
+  if (body.status === "incomplete") {
+    throw new OpenAIResponseError(`OpenAI response incomplete: ${body.incomplete_details?.reason ?? "unknown reason"}`);
+  }
+  let text = "";
+  for (const item of body.output ?? []) {
+    if (item.type !== "message") continue;
+    for (const part of item.content ?? []) {
+      if (part.type === "refusal") throw new OpenAIResponseError(`OpenAI refused: ${part.refusal ?? ""}`);
+      if (part.type === "output_text" && part.text) text += part.text;
+    }
+  }
+  if (!text) throw new OpenAIResponseError("OpenAI response had no output text");
+  return text;
+}
+
+/**
+ * Call the Responses API with `request.schema` enforced and return the
+ * parsed reply. `T` should describe the schema; strict mode guarantees the
+ * shape, so no fixing up is needed afterwards.
+ */
+export async function createStructuredResponse<T>(request: StructuredRequest): Promise<T> {
+  const apiKey = openaiApiKey();
+  const maxAttempts = request.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const deadline = Date.now() + request.timeoutMs;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(new OpenAITimeoutError(request.timeoutMs)), request.timeoutMs);
+  const cancel = () => controller.abort(request.signal?.reason);
+  if (request.signal?.aborted) cancel();
+  request.signal?.addEventListener("abort", cancel, { once: true });
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      let r: Response;
+      try {
+        r = await fetch(OPENAI_RESPONSES_URL, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            model: request.model ?? DEFAULT_MODEL,
+            input: request.input,
+            text: {
+              format: { type: "json_schema", name: request.schema.name, schema: request.schema.schema, strict: true },
+            },
+            max_output_tokens: request.maxOutputTokens,
+          }),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        // The reason is an OpenAITimeoutError unless the caller cancelled
+        if (controller.signal.aborted) throw controller.signal.reason;
+        throw error;
+      }
+
+      if (r.ok) {
+        const text = outputText(await r.json() as ResponsesBody);
+        try {
+          return JSON.parse(text) as T;
+        } catch {
+          throw new OpenAIResponseError("OpenAI response was not valid JSON", text.substring(0, 500));
+        }
+      }
+
+      const body = await r.text().catch(() => "");
+      const requestedWait = retryAfterMs(r.headers);
+      const error = new OpenAIHttpError(
+        r.status,
+        body.substring(0, 500),
+        requestedWait !== undefined ? Math.ceil(requestedWait / 1000) : undefined
+      );
+      if (!isRetryable(r.status) || attempt + 1 >= maxAttempts) throw error;
+
+      const wait = requestedWait ?? backoffMs(attempt);
+      // Waiting past the deadline would only end in a timeout
+      if (Date.now() + wait >= deadline) throw error;
+      console.warn(`[OPENAI] Status ${r.status}; retrying in ${Math.round(wait)}ms (attempt ${attempt + 2}/${maxAttempts})`);
+      await sleep(wait, controller.signal);
+    }
+  } finally {
+    clearTimeout(timeout);
+    request.signal?.removeEventListener("abort", cancel);
+  }
+}
+
+/** JSON error response for any error a handler catches; OpenAIErrors keep their status. */
+export function errorResponse(error: unknown, headers: Record<string, string> = {}): Response {
+  const status = error instanceof OpenAIError ? error.status : 500;
+  const message = error instanceof Error ? error.message : "Unknown error";
+  const body: Record<string, unknown> = { ok: false, error: message };
+  if (error instanceof OpenAIHttpError) body.openaiStatus = error.upstreamStatus;
+  if (error instanceof OpenAIResponseError && error.snippet) body.responseSnippet = error.snippet;
+
+  const retryAfter: Record<string, string> = error instanceof OpenAIHttpError && error.retryAfterSeconds !== undefined
+    ? { "Retry-After": String(error.retryAfterSeconds) }
+    : {};
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...retryAfter, ...headers },
+  });
+}
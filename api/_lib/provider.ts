@@ -0,0 +1,88 @@
+/**
+ * The AI operations the serverless functions need, behind one interface:
+ * order a set of images into a story, and describe a single image. The
+ * OpenAI adapter calls the Responses API; the local adapter is a
+ * deterministic heuristic that needs no network or key, for offline
+ * development and tests. AI_PROVIDER picks one (see config.ts).
+ */
+
+import type { SequenceFeatures } from "../../src/utils/heuristicSequencer";
+import { loadAIConfig, type AIConfig } from "./config";
+import { OpenAIConfigError } from "./openai";
+import { createOpenAIProvider } from "./providers/openai";
+import { createLocalProvider } from "./providers/local";
+
+/** A photo, or a video clip as its poster plus sampled frames. */
+export interface ProviderImage {
+  /** Image URL or data: URL. */
+  url: string;
+  /** Further frames of a video clip, as URLs; empty for photos. */
+  frames: string[];
+  /** Measured by the client, for heuristic ordering. */
+  features?: SequenceFeatures;
+}
+
+export interface SequenceRequest {
+  images: ProviderImage[];
+  context: string;
+  aspectRatio: string;
+  frameRate: number;
+}
+
+export interface SequenceResult {
+  /** Indices into `images`; the handler checks it is a permutation. */
+  order: number[];
+  beats: string[];
+  rationale: string;
+  /** Suggested film title; empty when there is nothing to go on. */
+  title: string;
+  /** One of MUSIC_MOODS, or empty when unknown. */
+  musicMood: string;
+}
+
+export type SuggestedRole = "opening" | "middle" | "climax" | "ending" | "transition";
+
+export interface SubjectBox {
+  label: string;
+  /** Fractions (0-1) of the image from the top-left. */
+  box: { x: number; y: number; width: number; height: number };
+}
+
+export interface ImageDescription {
+  tags: string[];
+  mood: string;
+  subject: string;
+  qualityNotes: string;
+  suggestedRole: SuggestedRole;
+  subjects: SubjectBox[];
+}
+
+export interface AIProvider {
+  name: string;
+  orderImages(request: SequenceRequest): Promise<SequenceResult>;
+  /** `signal` cancels the call, e.g. when the client disconnects. */
+  describeImage(image: ProviderImage, signal?: AbortSignal): Promise<ImageDescription>;
+}
+
+/**
+ * The configured provider. Throws OpenAIConfigError when OpenAI is chosen
+ * without a key, so handlers can fail before doing any work.
+ */
+export function getProvider(config: AIConfig = loadAIConfig()): AIProvider {
+  return config.provider === "local" ? createLocalProvider() : createOpenAIProvider(config);
+}
+
+/**
+ * The configured provider, or the local one when OpenAI is chosen without
+ * a key, so the handlers degrade rather than fail during offline
+ * development. `fallback` is set when the local provider stood in.
+ */
+export function providerWithFallback(config: AIConfig = loadAIConfig()): { provider: AIProvider; fallback: boolean } {
+  try {
+    return { provider: getProvider(config), fallback: false };
+  } catch (error) {
+    if (!(error instanceof OpenAIConfigError)) throw error;
+    console.warn(`[CONFIG] ${error.message}; using the local provider`);
+    return { provider: createLocalProvider(), fallback: true };
+  }
+}
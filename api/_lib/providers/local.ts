@@ -0,0 +1,114 @@
+/**
+ * Local adapter: a deterministic stand-in that needs no network or key.
+ * It reads what it can from the image bytes themselves (pixel size from
+ * the JPEG or PNG header, capture time from EXIF) and otherwise answers
+ * neutrally, so the same request always gets the same reply. Remote URLs
+ * are not fetched and are treated as having no metadata. Ordering is the
+ * shared heuristic sequencer, fed the client's features where it sent them.
+ */
+
+import { heuristicOrder } from "../../../src/utils/heuristicSequencer";
+import type { AIProvider, ImageDescription, ProviderImage, SequenceRequest, SequenceResult } from "../provider";
+
+interface ImageHeader {
+  width?: number;
+  height?: number;
+  /** Capture time in ms since the epoch, from EXIF. */
+  capturedAt?: number;
+}
+
+// Headers and EXIF sit at the start of the file
+const HEADER_SCAN_BYTES = 128 * 1024;
+const LOW_RESOLUTION_EDGE = 1000;
+const EXIF_DATE = /(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/;
+
+function headerBytes(url: string): Buffer | null {
+  if (!url.startsWith("data:")) return null;
+  const comma = url.indexOf(",");
+  if (comma < 0 || !url.slice(0, comma).endsWith(";base64")) return null;
+  // Four base64 characters encode three bytes
+  const length = Math.ceil(HEADER_SCAN_BYTES / 3) * 4;
+  return Buffer.from(url.slice(comma + 1, comma + 1 + length), "base64");
+}
+
+function jpegSize(bytes: Buffer): { width: number; height: number } | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Image data follows the start of scan; a frame header would have come first
+    if (marker === 0xda) break;
+    // SOF markers carry the frame size; C4, C8 and CC share the range but are not frames
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: bytes.readUInt16BE(offset + 5), width: bytes.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + bytes.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function readHeader(url: string): ImageHeader {
+  const bytes = headerBytes(url);
+  if (!bytes || bytes.length < 24) return {};
+
+  let size: { width: number; height: number } | null = null;
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    size = jpegSize(bytes);
+  } else if (bytes.toString("latin1", 1, 4) === "PNG") {
+    size = { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+  }
+
+  const date = EXIF_DATE.exec(bytes.toString("latin1"));
+  const capturedAt = date
+    ? Date.UTC(+date[1], +date[2] - 1, +date[3], +date[4], +date[5], +date[6])
+    : undefined;
+
+  return { ...size, capturedAt: capturedAt !== undefined && Number.isFinite(capturedAt) ? capturedAt : undefined };
+}
+
+function orientation(header: ImageHeader): string | null {
+  if (!header.width || !header.height) return null;
+  const ratio = header.width / header.height;
+  return ratio > 1.1 ? "landscape" : ratio < 0.9 ? "portrait" : "square";
+}
+
+/**
+ * Order without a model: the client's features, with capture time read
+ * from EXIF where the client had none. Also the sequence handler's
+ * fallback when the configured provider fails.
+ */
+export function heuristicSequence(images: ProviderImage[]): SequenceResult {
+  const { order, rationale } = heuristicOrder(images.map(image => ({
+    ...image.features,
+    capturedAt: image.features?.capturedAt ?? readHeader(image.url).capturedAt
+  })));
+  return { order, beats: [], rationale, title: "", musicMood: "" };
+}
+
+export function createLocalProvider(): AIProvider {
+  return {
+    name: "local",
+
+    async orderImages(request: SequenceRequest): Promise<SequenceResult> {
+      return heuristicSequence(request.images);
+    },
+
+    async describeImage(image: ProviderImage): Promise<ImageDescription> {
+      const header = readHeader(image.url);
+      const shape = orientation(header);
+      const tags = [shape, image.frames.length > 0 ? "video clip" : "photo"].filter((tag): tag is string => tag !== null);
+      const lowResolution = header.width !== undefined && header.height !== undefined
+        && Math.max(header.width, header.height) < LOW_RESOLUTION_EDGE;
+
+      return {
+        tags,
+        mood: "neutral",
+        subject: "unknown",
+        qualityNotes: header.width && header.height
+          ? `Local heuristic: ${header.width}x${header.height}${lowResolution ? ", low resolution" : ""}`
+          : "Local heuristic: size unknown",
+        suggestedRole: "middle",
+        subjects: []
+      };
+    }
+  };
+}
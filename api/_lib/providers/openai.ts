@@ -0,0 +1,147 @@
+/**
+ * OpenAI adapter: both operations as Responses API calls with a JSON
+ * schema, through the shared client. Model, token limits and timeouts come
+ * from the AI config.
+ */
+
+import { MUSIC_MOODS } from "../../../src/types/storyPlan";
+import type { AIConfig } from "../config";
+import { createStructuredResponse, openaiApiKey, type InputContent } from "../openai";
+import type { AIProvider, ImageDescription, ProviderImage, SequenceRequest, SequenceResult } from "../provider";
+
+const SEQUENCE_SCHEMA = {
+  name: "photo_sequence",
+  schema: {
+    type: "object",
+    properties: {
+      order: { type: "array", items: { type: "integer" } },
+      beats: { type: "array", items: { type: "string" } },
+      rationale: { type: "string" },
+      title: { type: "string" },
+      musicMood: { type: "string", enum: [...MUSIC_MOODS] }
+    },
+    required: ["order", "beats", "rationale", "title", "musicMood"],
+    additionalProperties: false
+  }
+};
+
+const VISION_SCHEMA = {
+  name: "image_analysis",
+  schema: {
+    type: "object",
+    properties: {
+      tags: { type: "array", items: { type: "string" } },
+      mood: { type: "string" },
+      subject: { type: "string" },
+      qualityNotes: { type: "string" },
+      suggestedRole: { type: "string", enum: ["opening", "middle", "climax", "ending", "transition"] },
+      subjects: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            label: { type: "string" },
+            box: {
+              type: "object",
+              properties: {
+                x: { type: "number" },
+                y: { type: "number" },
+                width: { type: "number" },
+                height: { type: "number" }
+              },
+              required: ["x", "y", "width", "height"],
+              additionalProperties: false
+            }
+          },
+          required: ["label", "box"],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ["tags", "mood", "subject", "qualityNotes", "suggestedRole", "subjects"],
+    additionalProperties: false
+  }
+};
+
+const SEQUENCE_SYSTEM_PROMPT = `You are a professional photo editor and film story editor. Your job is to analyze a set of images and produce the best cinematic ordering for a memory video.
+
+OUTPUT:
+- "order": array of indices representing the optimal sequence
+- "beats": narrative beats, e.g. ["opening", "build", "turn", "climax", "ending"]
+- "rationale": brief explanation of the ordering choice
+- "title": a short title for the film, at most 6 words, drawn from the context when there is one
+- "musicMood": the mood the soundtrack should have
+
+RULES:
+- Return "order" as an array of indices [0, 1, 2, ..., n-1] where n is the number of images
+- Each index must appear exactly once
+- Order should create the best cinematic narrative flow
+- Consider visual composition, mood transitions, and storytelling arc`;
+
+function imageParts(image: ProviderImage): InputContent[] {
+  return [image.url, ...image.frames].map(url => ({ type: "input_image", image_url: url }));
+}
+
+export function createOpenAIProvider(config: AIConfig): AIProvider {
+  // Checked up front so a missing key fails the request before any work
+  openaiApiKey();
+
+  return {
+    name: "openai",
+
+    async orderImages(request: SequenceRequest): Promise<SequenceResult> {
+      // Label each item when any is a video, so its frames read as one entry
+      const hasVideo = request.images.some(image => image.frames.length > 0);
+      const itemContents = request.images.flatMap((image, idx): InputContent[] => {
+        const parts = imageParts(image);
+        if (!hasVideo) return parts;
+        const text = parts.length > 1
+          ? `Item ${idx}: short video clip, shown as ${parts.length} frames`
+          : `Item ${idx}: photo`;
+        return [{ type: "input_text", text }, ...parts];
+      });
+
+      const userPrompt = `Context: ${request.context || '(none)'}
+Aspect Ratio: ${request.aspectRatio}
+Frame Rate: ${request.frameRate} fps
+
+Analyze these ${request.images.length} ${hasVideo ? 'items (photos and video clips)' : 'images'} and determine the optimal cinematic ordering.
+Return order (array of indices), beats, rationale, title and musicMood.`;
+
+      return createStructuredResponse<SequenceResult>({
+        model: config.model,
+        input: [
+          { role: "system", content: [{ type: "input_text", text: SEQUENCE_SYSTEM_PROMPT }] },
+          { role: "user", content: [{ type: "input_text", text: userPrompt }, ...itemContents] }
+        ],
+        schema: SEQUENCE_SCHEMA,
+        maxOutputTokens: config.sequence.maxOutputTokens,
+        timeoutMs: config.sequence.timeoutMs,
+        maxAttempts: config.maxAttempts
+      });
+    },
+
+    async describeImage(image: ProviderImage, signal?: AbortSignal): Promise<ImageDescription> {
+      const clipNote = image.frames.length > 0
+        ? `These are frames from one short video clip; the first is its poster. Describe the clip as a whole; subject boxes refer to the first frame.\n`
+        : '';
+      const prompt = `${clipNote}Analyze this image for a cinematic memory video. Return:
+- tags: descriptive tags
+- mood: the emotional tone
+- subject: the main subject
+- qualityNotes: technical/composition notes
+- suggestedRole: where it belongs in the story
+- subjects: up to 3 main subjects (people's faces and bodies, key objects), each with a label and a box { x, y, width, height } in fractions (0-1) of the image width and height from the top-left; empty if there is no clear subject`;
+
+      return createStructuredResponse<ImageDescription>({
+        model: config.model,
+        input: [{ role: "user", content: [{ type: "input_text", text: prompt }, ...imageParts(image)] }],
+        schema: VISION_SCHEMA,
+        maxOutputTokens: config.vision.maxOutputTokens,
+        timeoutMs: config.vision.timeoutMs,
+        maxAttempts: config.maxAttempts,
+        signal
+      });
+    }
+  };
+}
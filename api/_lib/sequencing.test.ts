@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { parseImage } from './sequencing';
+
+describe('parseImage', () => {
+  it('builds data URLs from base64 and an image MIME type', () => {
+    expect(parseImage({ base64: 'AAAA', mimeType: 'image/png' })?.url).toBe('data:image/png;base64,AAAA');
+  });
+
+  it('reads unexpected MIME types as JPEG', () => {
+    const image = parseImage({ base64: 'AAAA', mimeType: 'text/html', frames: [{ base64: 'BBBB', mimeType: 'image/png;x' }] });
+    expect(image?.url).toBe('data:image/jpeg;base64,AAAA');
+    expect(image?.frames).toEqual(['data:image/jpeg;base64,BBBB']);
+  });
+
+  it('skips malformed frames and caps how many are kept', () => {
+    const frames = [null, 'BBBB', { base64: '' }, { base64: 7 }, ...Array.from({ length: 6 }, () => ({ base64: 'CCCC' }))];
+    expect(parseImage({ base64: 'AAAA', frames })?.frames).toEqual(Array.from({ length: 4 }, () => 'data:image/jpeg;base64,CCCC'));
+  });
+
+  it('is null without a url or base64 data', () => {
+    expect(parseImage({ id: 'x', frames: [{ base64: 'BBBB' }] })).toBeNull();
+  });
+});
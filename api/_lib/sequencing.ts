@@ -0,0 +1,115 @@
+/**
+ * Sequencing shared by /api/sequence and /api/plan: reading the request's
+ * images, and ordering them with the configured provider, falling back to
+ * the local heuristic sequencer when the provider fails or its order is
+ * not a permutation.
+ */
+
+import { HISTOGRAM_LEVELS, type SequenceFeatures } from "../../src/utils/heuristicSequencer";
+import type { AIProvider, ProviderImage, SequenceRequest, SequenceResult } from "./provider";
+import { heuristicSequence } from "./providers/local";
+
+// Frames kept per video clip; the client samples three
+const MAX_FRAMES_PER_IMAGE = 4;
+const IMAGE_MIME_TYPE = /^image\/[a-z0-9.+-]+$/;
+
+/** base64 image data as a data: URL; a missing or unexpected MIME type reads as JPEG. */
+function dataUrl(base64: string, mimeType: unknown): string {
+  const type = typeof mimeType === 'string' && IMAGE_MIME_TYPE.test(mimeType) ? mimeType : 'image/jpeg';
+  return `data:${type};base64,${base64}`;
+}
+
+/** A clip's sampled frames as data: URLs, skipping malformed ones and keeping at most MAX_FRAMES_PER_IMAGE. */
+function parseFrames(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const frames: string[] = [];
+  for (const item of value as unknown[]) {
+    if (frames.length === MAX_FRAMES_PER_IMAGE) break;
+    if (!item || typeof item !== 'object') continue;
+    const frame = item as Record<string, unknown>;
+    if (typeof frame.base64 === 'string' && frame.base64) frames.push(dataUrl(frame.base64, frame.mimeType));
+  }
+  return frames;
+}
+
+/** The client's sequencing features, keeping only well-formed fields. */
+function parseFeatures(value: unknown): SequenceFeatures | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const features: SequenceFeatures = {};
+  if (typeof raw.capturedAt === 'number' && Number.isFinite(raw.capturedAt)) {
+    features.capturedAt = raw.capturedAt;
+  }
+  if (Array.isArray(raw.histogram) && raw.histogram.length === HISTOGRAM_LEVELS ** 3
+    && raw.histogram.every(bin => typeof bin === 'number' && Number.isFinite(bin) && bin >= 0)) {
+    features.histogram = raw.histogram;
+  }
+  if (typeof raw.hash === 'string' && /^[0-9a-f]{16}$/.test(raw.hash)) {
+    features.hash = raw.hash;
+  }
+  if (typeof raw.brightness === 'number' && raw.brightness >= 0 && raw.brightness <= 1) {
+    features.brightness = raw.brightness;
+  }
+  return features;
+}
+
+/**
+ * One of the request body's `images` as a provider image, or null when it
+ * has neither a url nor base64 data.
+ */
+export function parseImage(value: unknown): ProviderImage | null {
+  const img = (value ?? {}) as Record<string, unknown>;
+  let url: string;
+  if (typeof img.url === 'string' && img.url) {
+    url = img.url;
+  } else if (typeof img.base64 === 'string' && img.base64) {
+    url = dataUrl(img.base64, img.mimeType);
+  } else {
+    return null;
+  }
+  return { url, frames: parseFrames(img.frames), features: parseFeatures(img.features) };
+}
+
+/**
+ * The request body's `images` as provider images. Each needs a url or
+ * base64 data; throws naming the first that has neither.
+ */
+export function parseImages(images: unknown[]): ProviderImage[] {
+  return images.map((value, idx): ProviderImage => {
+    const image = parseImage(value);
+    if (!image) {
+      throw new Error(`Image ${idx} (id: ${(value as Record<string, unknown> | null)?.id}) must have either url or base64`);
+    }
+    return image;
+  });
+}
+
+function isPermutation(order: number[], length: number): boolean {
+  const seen = new Set(order);
+  return order.length === length && seen.size === length && order.every(i => Number.isInteger(i) && i >= 0 && i < length);
+}
+
+/**
+ * Order `request.images` with `provider`. `fallback` is set when the
+ * heuristic sequencer had to stand in; the result is always a permutation.
+ */
+export async function orderWithFallback(
+  provider: AIProvider,
+  request: SequenceRequest
+): Promise<{ result: SequenceResult; fallback: boolean }> {
+  let result: SequenceResult;
+  try {
+    result = await provider.orderImages(request);
+    console.log(`[SEQUENCE] Ordered ${request.images.length} items with the ${provider.name} provider`);
+  } catch (error) {
+    console.warn(`[SEQUENCE] ${provider.name} provider failed, ordering heuristically:`, error);
+    return { result: heuristicSequence(request.images), fallback: true };
+  }
+
+  // Only a full permutation is usable
+  if (!isPermutation(result.order, request.images.length)) {
+    console.warn('[SEQUENCE] Order validation failed, ordering heuristically');
+    return { result: heuristicSequence(request.images), fallback: true };
+  }
+  return { result, fallback: false };
+}
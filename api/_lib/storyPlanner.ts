@@ -0,0 +1,150 @@
+/**
+ * Turns an ordering and per-image descriptions into a StoryPlan. The rules
+ * are deterministic, so whichever provider did the looking, the same
+ * inputs give the same plan:
+ *
+ * - roles follow vision's suggestions, except that only the first shot
+ *   opens and only the last one ends, and a film with no climax gets one
+ *   about three quarters in
+ * - each role has a duration weight (endings linger, transitions pass
+ *   quickly) and a motion: push in to open and at the climax, pull back to
+ *   end, pans between; video clips hold still
+ * - the focal region is the union of vision's subject boxes
+ * - transitions follow the roles of the shots either side, dissolving
+ *   where the mood changes and cutting where it holds
+ * - the title and music mood come from the sequencer, falling back to the
+ *   context and the photos' moods
+ */
+
+import { MUSIC_MOODS, STORY_PLAN_VERSION, type MusicMood, type StoryPlan, type StoryRole, type StoryShot } from "../../src/types/storyPlan";
+import { regionFromSubjects } from "../../src/utils/focalRegion";
+import type { MotionEffect } from "../../src/utils/kenBurns";
+import type { VisionFrame } from "./analysis";
+import type { ProviderImage, SequenceResult } from "./provider";
+
+export interface StoryInputs {
+  images: ProviderImage[];
+  sequence: SequenceResult;
+  /** Vision results indexed like `images`; missing where an image was not analysed. */
+  frames: (VisionFrame | undefined)[];
+  context: string;
+  fallback: boolean;
+}
+
+const ROLE_WEIGHTS: Record<StoryRole, number> = {
+  opening: 1.2,
+  middle: 1,
+  climax: 1.25,
+  ending: 1.5,
+  transition: 0.75
+};
+// Where a climax goes when vision suggested none, as a share of the film
+const CLIMAX_POSITION = 0.75;
+const TITLE_MAX_WORDS = 6;
+const DEFAULT_MUSIC_MOOD: MusicMood = "warm";
+
+function isMusicMood(value: string): value is MusicMood {
+  return (MUSIC_MOODS as readonly string[]).includes(value);
+}
+
+function moodWords(mood: string): string[] {
+  return mood.toLowerCase().match(/[a-z]+/g) ?? [];
+}
+
+function rolesFor(order: number[], frames: (VisionFrame | undefined)[]): StoryRole[] {
+  const last = order.length - 1;
+  const roles = order.map((photoIndex, k): StoryRole => {
+    if (k === 0) return "opening";
+    if (k === last) return "ending";
+    const suggested = frames[photoIndex]?.suggestedRole ?? "middle";
+    return suggested === "opening" || suggested === "ending" ? "middle" : suggested;
+  });
+
+  if (order.length >= 3 && !roles.includes("climax")) {
+    const k = Math.min(last - 1, Math.max(1, Math.round(last * CLIMAX_POSITION)));
+    roles[k] = "climax";
+  }
+  return roles;
+}
+
+function effectFor(role: StoryRole, image: ProviderImage, hasSubject: boolean, k: number): MotionEffect {
+  // The footage supplies the movement
+  if (image.frames.length > 0) return "static";
+  if (role === "opening" || role === "climax") return "zoom-in";
+  if (role === "ending") return "zoom-out";
+  if (role === "middle" && hasSubject) return "zoom-in";
+  return k % 2 === 0 ? "pan-right" : "pan-left";
+}
+
+function transitionBetween(from: StoryShot, to: StoryShot): string {
+  if (to.role === "ending") return "dip_to_black_micro";
+  if (to.role === "climax") return from.effect === "zoom-in" && to.effect === "zoom-in" ? "cross_zoom" : "dip_to_white";
+  if (from.role === "climax") return "breath_hold";
+  if (from.role === "opening") return "match_dissolve";
+  // Carry a shared pan direction through the cut
+  if ((from.role === "transition" || to.role === "transition") && from.effect === to.effect) {
+    if (to.effect === "pan-left") return "whip_pan_left";
+    if (to.effect === "pan-right") return "whip_pan_right";
+  }
+  const fromWords = moodWords(from.mood);
+  const shared = moodWords(to.mood).some(word => fromWords.includes(word));
+  return shared || from.mood === "unknown" || to.mood === "unknown" ? "hard_cut" : "match_dissolve";
+}
+
+/** The sequencer's title, or the opening words of the context. */
+function titleFor(sequence: SequenceResult, context: string): string {
+  const suggested = sequence.title.trim();
+  if (suggested) return suggested;
+  const firstLine = context.split(/\r?\n/)[0].trim();
+  const words = firstLine.split(/\s+/).filter(Boolean);
+  return words.length > TITLE_MAX_WORDS ? `${words.slice(0, TITLE_MAX_WORDS).join(" ")}…` : firstLine;
+}
+
+/** The sequencer's mood when it is in the manifest's vocabulary, else the one the photos name most. */
+function musicMoodFor(sequence: SequenceResult, shots: StoryShot[]): MusicMood {
+  if (isMusicMood(sequence.musicMood)) return sequence.musicMood;
+  const counts = new Map<MusicMood, number>();
+  for (const shot of shots) {
+    for (const word of moodWords(shot.mood)) {
+      if (isMusicMood(word)) counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+  let best = DEFAULT_MUSIC_MOOD;
+  let bestCount = 0;
+  for (const [mood, count] of counts) {
+    if (count > bestCount) {
+      best = mood;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export function buildStoryPlan({ images, sequence, frames, context, fallback }: StoryInputs): StoryPlan {
+  const roles = rolesFor(sequence.order, frames);
+  const shots = sequence.order.map((photoIndex, k): StoryShot => {
+    const frame = frames[photoIndex];
+    const focalRegion = frame ? regionFromSubjects(frame.subjects) : null;
+    const isVideo = images[photoIndex].frames.length > 0;
+    return {
+      photoIndex,
+      role: roles[k],
+      // A clip's trim window sets its length
+      durationWeight: isVideo ? 1 : ROLE_WEIGHTS[roles[k]],
+      effect: effectFor(roles[k], images[photoIndex], focalRegion !== null, k),
+      ...(focalRegion ? { focalRegion } : {}),
+      mood: frame?.mood ?? "unknown"
+    };
+  });
+
+  return {
+    version: STORY_PLAN_VERSION,
+    shots,
+    transitions: shots.slice(1).map((shot, k) => transitionBetween(shots[k], shot)),
+    title: titleFor(sequence, context),
+    musicMood: musicMoodFor(sequence, shots),
+    beats: sequence.beats,
+    rationale: sequence.rationale,
+    ...(fallback ? { fallback } : {})
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Vercel Serverless Function: Story Planning
+ * Sequencing and per-image vision in one call, combined into a StoryPlan
+ * (src/types/storyPlan.ts): the photos in order, each with its narrative
+ * role, duration weight, motion and focal region, plus transitions, a title
+ * and a music mood for the client to render.
+ * Uses the configured AI provider (_lib/provider.ts): OpenAI by default, or
+ * the offline heuristic with AI_PROVIDER=local
+ *
+ * POST /api/plan
+ * Body: the same as /api/sequence
+ *
+ * Ordering and analysis run side by side, the analysis VISION_CONCURRENCY
+ * images at a time. Ordering falls back to the heuristic sequencer and a
+ * failed image to neutral analysis, as in /api/sequence and /api/vision,
+ * and the local provider does both when OpenAI is chosen without a key;
+ * the plan then carries `fallback: true`.
+ */
+
+import { analyseImages, type VisionFrame } from "./_lib/analysis";
+import { loadAIConfig } from "./_lib/config";
+import { errorResponse } from "./_lib/openai";
+import { providerWithFallback } from "./_lib/provider";
+import { orderWithFallback, parseImages } from "./_lib/sequencing";
+import { buildStoryPlan } from "./_lib/storyPlanner";
+
+export const runtime = "nodejs";
+
+// Rate limiting: Simple in-memory store (for production, use Redis/Upstash)
+const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
+const RATE_LIMIT_WINDOW_MS = 10 * 60 * 1000; // 10 minutes
+const RATE_LIMIT_MAX_REQUESTS = 30;
+
+function getRateLimitKey(ip: string | null): string {
+  return ip || 'unknown';
+}
+
+function checkRateLimit(ip: string | null): { allowed: boolean; remaining: number } {
+  const key = getRateLimitKey(ip);
+  const now = Date.now();
+  const record = rateLimitMap.get(key);
+
+  if (!record || now > record.resetAt) {
+    rateLimitMap.set(key, { count: 1, resetAt: now + RATE_LIMIT_WINDOW_MS });
+    return { allowed: true, remaining: RATE_LIMIT_MAX_REQUESTS - 1 };
+  }
+
+  if (record.count >= RATE_LIMIT_MAX_REQUESTS) {
+    return { allowed: false, remaining: 0 };
+  }
+
+  record.count++;
+  return { allowed: true, remaining: RATE_LIMIT_MAX_REQUESTS - record.count };
+}
+
+export default async function handler(req: Request): Promise<Response> {
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // Rate limiting
+  const clientIp = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 
+                   req.headers.get('x-real-ip') || 
+                   null;
+  const rateLimit = checkRateLimit(clientIp);
+  
+  if (!rateLimit.allowed) {
+    return new Response(JSON.stringify({ 
+      error: 'Rate limit exceeded', 
+      message: 'Too many requests. Please try again later.' 
+    }), {
+      status: 429,
+      headers: { 
+        'Content-Type': 'application/json',
+        'X-RateLimit-Remaining': '0',
+        'Retry-After': '600'
+      }
+    });
+  }
+
+  try {
+    // Input validation
+    const body = await req.json();
+    
+    if (!body.images || !Array.isArray(body.images)) {
+      return new Response(JSON.stringify({ error: 'images array required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (body.images.length === 0) {
+      return new Response(JSON.stringify({ error: 'images array cannot be empty' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Limit number of images
+    if (body.images.length > 36) {
+      return new Response(JSON.stringify({ error: 'Too many images (max 36)' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (body.images.length < 6) {
+      return new Response(JSON.stringify({ error: 'Too few images (min 6)' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Without an OpenAI key the local provider plans instead
+    const config = loadAIConfig();
+    const { provider, fallback: standIn } = providerWithFallback(config);
+
+    const images = parseImages(body.images);
+    const context = typeof body.context === 'string' ? body.context.trim() : '';
+    const frames: (VisionFrame | undefined)[] = new Array(images.length);
+
+    const [ordering] = await Promise.all([
+      orderWithFallback(provider, {
+        images,
+        context,
+        aspectRatio: body.aspectRatio || '16:9',
+        frameRate: typeof body.frameRate === 'number' ? body.frameRate : 24
+      }),
+      analyseImages(
+        provider,
+        images.map((image, index) => ({ index, image })),
+        config.vision.concurrency,
+        frame => { frames[frame.index] = frame; }
+      )
+    ]);
+
+    const failed = frames.filter(frame => frame?.failure).length;
+    const plan = buildStoryPlan({
+      images,
+      sequence: ordering.result,
+      frames,
+      context,
+      fallback: standIn || ordering.fallback || failed > 0
+    });
+    console.log(`[PLAN] Planned ${images.length} items with the ${provider.name} provider` +
+      (failed > 0 ? `; ${failed} not analysed` : ''));
+
+    return new Response(JSON.stringify(plan), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-RateLimit-Remaining': rateLimit.remaining.toString()
+      }
+    });
+
+  } catch (error) {
+    console.error('[PLAN] Error:', error);
+    return errorResponse(error);
+  }
+}
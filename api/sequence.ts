@@ -1,17 +1,30 @@
 /**
  * Vercel Serverless Function: Sequence Planning
  * Analyzes uploaded images and returns the best ordered sequence
- * Uses OpenAI Responses API (/v1/responses) - server-side only
+ * Uses the configured AI provider (_lib/provider.ts): OpenAI by default, or
+ * the offline heuristic with AI_PROVIDER=local
  * 
  * POST /api/sequence
  * Body: {
  *   context?: string,
  *   aspectRatio?: string,
  *   frameRate?: number,
- *   images: Array<{ id: string, url?: string, base64?: string, mimeType?: string }>
+ *   images: Array<{ id: string, url?: string, base64?: string, mimeType?: string,
+ *                   frames?: Array<{ base64: string, mimeType: string }>,
+ *                   features?: { capturedAt?, histogram?, hash?, brightness? } }>
  * }
+ *
+ * Video clips are sent as a poster plus a few sampled `frames` and ordered
+ * as whole items. When the provider fails or its order is not a
+ * permutation, or OpenAI is chosen without a key, the local heuristic
+ * sequencer orders the images from their `features` instead and the
+ * response carries `fallback: true`.
  */
 
+import { errorResponse } from "./_lib/openai";
+import { providerWithFallback } from "./_lib/provider";
+import { orderWithFallback, parseImages } from "./_lib/sequencing";
+
 export const runtime = "nodejs";
 
 // Rate limiting: Simple in-memory store (for production, use Redis/Upstash)
@@ -103,188 +116,32 @@ export default async function handler(req: Request): Promise<Response> {
       });
     }
 
-    // Validate API key
-    const apiKey = process.env.OPENAI_API_KEY;
-    const hasApiKey = !!apiKey;
-    console.log('[SEQUENCE] OPENAI_API_KEY exists:', hasApiKey);
-    
-    if (!apiKey) {
-      console.error('[SEQUENCE] OPENAI_API_KEY is not set');
-      return new Response(JSON.stringify({ error: 'OPENAI_API_KEY is not set' }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
+    // Without an OpenAI key the local provider orders instead
+    const { provider, fallback: standIn } = providerWithFallback();
 
-    const context = typeof body.context === 'string' ? body.context.trim() : '';
-    const aspectRatio = body.aspectRatio || '16:9';
-    const frameRate = typeof body.frameRate === 'number' ? body.frameRate : 24;
-
-    // Build image content for OpenAI
-    const imageContents = body.images.map((img: any, idx: number) => {
-      let imageUrl: string;
-      if (img.url) {
-        imageUrl = img.url;
-      } else if (img.base64) {
-        const mimeType = img.mimeType || 'image/jpeg';
-        imageUrl = `data:${mimeType};base64,${img.base64}`;
-      } else {
-        throw new Error(`Image ${idx} (id: ${img.id}) must have either url or base64`);
-      }
-      
-      return {
-        type: 'input_image',
-        image_url: imageUrl
-      };
+    const images = parseImages(body.images);
+    const { result: parsed, fallback } = await orderWithFallback(provider, {
+      images,
+      context: typeof body.context === 'string' ? body.context.trim() : '',
+      aspectRatio: body.aspectRatio || '16:9',
+      frameRate: typeof body.frameRate === 'number' ? body.frameRate : 24
     });
 
-    // Build prompt
-    const systemPrompt = `You are a professional photo editor and film story editor. Your job is to analyze a set of images and produce the best cinematic ordering for a memory video.
-
-OUTPUT FORMAT (JSON only, no markdown):
-{
-  "order": [0, 1, 2, ...],  // Array of indices representing the optimal sequence
-  "beats": ["opening", "build", "turn", "climax", "ending"],  // Optional: narrative beats
-  "rationale": "Brief explanation of the ordering choice"
-}
-
-RULES:
-- Return "order" as an array of indices [0, 1, 2, ..., n-1] where n is the number of images
-- Each index must appear exactly once
-- Order should create the best cinematic narrative flow
-- Consider visual composition, mood transitions, and storytelling arc`;
-
-    const userPrompt = `Context: ${context || '(none)'}
-Aspect Ratio: ${aspectRatio}
-Frame Rate: ${frameRate} fps
-
-Analyze these ${body.images.length} images and determine the optimal cinematic ordering.
-Return ONLY valid JSON with keys: order (array of indices), beats (optional array), rationale (optional string).`;
-
-    // Call OpenAI Responses API
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 45000); // 45s timeout
-    
-    try {
-      const r = await fetch("https://api.openai.com/v1/responses", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "gpt-4.1-mini",
-          input: [
-            {
-              role: "system",
-              content: [{ type: "input_text", text: systemPrompt }]
-            },
-            {
-              role: "user",
-              content: [
-                { type: "input_text", text: userPrompt },
-                ...imageContents
-              ]
-            }
-          ],
-          max_output_tokens: 800,
-        }),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeout);
-      
-      console.log('[SEQUENCE] OpenAI response status:', r.status);
-      
-      const json = await r.json();
-      
-      if (!r.ok) {
-        console.error('[SEQUENCE] OpenAI API error:', r.status, JSON.stringify(json).substring(0, 200));
-        return new Response(JSON.stringify({ 
-          error: "OpenAI auth failed", 
-          openaiStatus: r.status, 
-          openaiBody: json 
-        }), {
-          status: 502,
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
-
-      const text = json.output_text || json.output || '';
-      console.log('[SEQUENCE] OpenAI response text length:', text.length);
-
-      // Parse JSON response
-      let parsed: any;
-      try {
-        // Remove markdown code blocks if present
-        const cleaned = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-        parsed = JSON.parse(cleaned);
-      } catch (parseError) {
-        console.error('[SEQUENCE] JSON parse error:', parseError);
-        console.error('[SEQUENCE] Response text snippet:', text.substring(0, 500));
-        return new Response(JSON.stringify({ 
-          error: 'Failed to parse OpenAI response as JSON',
-          responseSnippet: text.substring(0, 500)
-        }), {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
-
-      // Validate order array
-      if (!Array.isArray(parsed.order)) {
-        return new Response(JSON.stringify({ error: 'Response missing valid "order" array' }), {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
-
-      // Ensure order contains all indices exactly once
-      const expectedIndices = Array.from({ length: body.images.length }, (_, i) => i);
-      const orderSet = new Set(parsed.order);
-      const hasAllIndices = expectedIndices.every(i => orderSet.has(i)) && parsed.order.length === body.images.length;
-      
-      if (!hasAllIndices) {
-        console.warn('[SEQUENCE] Order validation failed, using fallback');
-        parsed.order = expectedIndices; // Fallback to original order
-      }
-
-      // Return response
-      return new Response(JSON.stringify({
-        order: parsed.order,
-        beats: Array.isArray(parsed.beats) ? parsed.beats : undefined,
-        rationale: typeof parsed.rationale === 'string' ? parsed.rationale : undefined
-      }), {
-        status: 200,
-        headers: { 
-          'Content-Type': 'application/json',
-          'X-RateLimit-Remaining': rateLimit.remaining.toString()
-        }
-      });
-
-    } catch (error: any) {
-      clearTimeout(timeout);
-      
-      if (error.name === 'AbortError') {
-        console.error('[SEQUENCE] Request timed out');
-        return new Response(JSON.stringify({ error: 'Request timed out' }), {
-          status: 504,
-          headers: { 'Content-Type': 'application/json' }
-        });
+    return new Response(JSON.stringify({
+      order: parsed.order,
+      beats: parsed.beats.length > 0 ? parsed.beats : undefined,
+      rationale: parsed.rationale || undefined,
+      fallback: fallback || standIn || undefined
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-RateLimit-Remaining': rateLimit.remaining.toString()
       }
-      
-      console.error('[SEQUENCE] Error calling OpenAI:', error);
-      throw error;
-    }
+    });
 
-  } catch (error: any) {
+  } catch (error) {
     console.error('[SEQUENCE] Error:', error);
-    return new Response(JSON.stringify({ 
-      ok: false, 
-      error: error.message || 'Unknown error' 
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return errorResponse(error);
   }
 }
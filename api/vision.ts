@@ -1,14 +1,34 @@
 /**
  * Vercel Serverless Function: Vision Analysis (Optional)
  * Per-image detailed analysis for cinematic video planning
- * Uses OpenAI Responses API (/v1/responses) - server-side only
+ * Uses the configured AI provider (_lib/provider.ts): OpenAI by default, or
+ * the offline heuristic with AI_PROVIDER=local
  * 
  * POST /api/vision
  * Body: {
- *   images: Array<{ id: string, url?: string, base64?: string, mimeType?: string }>
+ *   images: Array<{ id: string, url?: string, base64?: string, mimeType?: string,
+ *                   frames?: Array<{ base64: string, mimeType: string }> }>
  * }
+ *
+ * A video clip is its poster plus sampled `frames`, analysed together as one item.
+ *
+ * Images are analysed VISION_CONCURRENCY at a time. The response is
+ * { frames } once all are done, or with ?stream=true (or Accept:
+ * text/event-stream) an SSE stream: a `frame` event as each image
+ * finishes, in completion order, then `complete` with the counts. Either
+ * way, a client that disconnects cancels the analysis still in flight. An
+ * image whose analysis fails still gets a neutral frame, with `failure`
+ * saying whether it timed out, hit an HTTP error or came back unparseable. When
+ * OpenAI is chosen without a key, the local provider analyses instead and
+ * the response (or `complete` event) carries `fallback: true`.
  */
 
+import { analyseImages, type VisionFrame } from "./_lib/analysis";
+import { loadAIConfig } from "./_lib/config";
+import { errorResponse } from "./_lib/openai";
+import { providerWithFallback, type ProviderImage } from "./_lib/provider";
+import { parseImage } from "./_lib/sequencing";
+
 export const runtime = "nodejs";
 
 // Rate limiting: Simple in-memory store (for production, use Redis/Upstash)
@@ -85,142 +105,71 @@ export default async function handler(req: Request): Promise<Response> {
       });
     }
 
-    // Validate API key
-    const apiKey = process.env.OPENAI_API_KEY;
-    const hasApiKey = !!apiKey;
-    console.log('[VISION] OPENAI_API_KEY exists:', hasApiKey);
-    
-    if (!apiKey) {
-      console.error('[VISION] OPENAI_API_KEY is not set');
-      return new Response(JSON.stringify({ error: 'OPENAI_API_KEY is not set' }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
+    // Without an OpenAI key the local provider analyses instead
+    const config = loadAIConfig();
+    const { provider, fallback } = providerWithFallback(config);
+    console.log(`[VISION] Provider: ${provider.name}, ${config.vision.concurrency} at a time`);
 
-    // Analyze each image sequentially
-    const frames = [];
-    
-    for (let i = 0; i < body.images.length; i++) {
-      const img = body.images[i];
-      
-      // Get image URL
-      let imageUrl: string;
-      if (img.url) {
-        imageUrl = img.url;
-      } else if (img.base64) {
-        const mimeType = img.mimeType || 'image/jpeg';
-        imageUrl = `data:${mimeType};base64,${img.base64}`;
+    const items: Array<{ index: number; image: ProviderImage }> = [];
+    body.images.forEach((value: unknown, i: number) => {
+      const image = parseImage(value);
+      if (image) {
+        items.push({ index: i, image });
       } else {
-        console.warn(`[VISION] Image ${i} (id: ${img.id}) missing url/base64, skipping`);
-        continue;
+        console.warn(`[VISION] Image ${i} (id: ${(value as Record<string, unknown> | null)?.id}) missing url/base64, skipping`);
       }
+    });
 
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 30000); // 30s per image
-      
-      try {
-        const prompt = `Analyze this image for a cinematic memory video. Return JSON with:
-- tags: array of descriptive tags
-- mood: string describing the emotional tone
-- subject: string describing the main subject
-- qualityNotes: string with technical/composition notes
-- suggestedRole: one of "opening", "middle", "climax", "ending", "transition"
-
-Return ONLY valid JSON, no markdown.`;
-
-        const r = await fetch("https://api.openai.com/v1/responses", {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "gpt-4.1-mini",
-            input: [
-              {
-                role: "user",
-                content: [
-                  { type: "input_text", text: prompt },
-                  { type: "input_image", image_url: imageUrl }
-                ]
-              }
-            ],
-            max_output_tokens: 400,
-          }),
-          signal: controller.signal
-        });
-
-        clearTimeout(timeout);
-        
-        if (!r.ok) {
-          console.error(`[VISION] OpenAI error for image ${i}:`, r.status);
-          // Add fallback frame
-          frames.push({
-            index: i,
-            tags: [],
-            mood: 'unknown',
-            subject: 'unknown',
-            qualityNotes: 'Analysis failed',
-            suggestedRole: 'middle' as const
-          });
-          continue;
-        }
-
-        const json = await r.json();
-        const text = json.output_text || json.output || '';
-        
-        // Parse JSON
-        let parsed: any;
-        try {
-          const cleaned = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-          parsed = JSON.parse(cleaned);
-        } catch (parseError) {
-          console.error(`[VISION] JSON parse error for image ${i}`);
-          frames.push({
-            index: i,
-            tags: [],
-            mood: 'unknown',
-            subject: 'unknown',
-            qualityNotes: 'Parse error',
-            suggestedRole: 'middle' as const
-          });
-          continue;
+    const analyse = (onFrame: (frame: VisionFrame) => void, signal?: AbortSignal) =>
+      analyseImages(provider, items, config.vision.concurrency, onFrame, signal);
+
+    const url = new URL(req.url);
+    const stream = url.searchParams.get('stream') === 'true'
+      || (req.headers.get('accept') ?? '').includes('text/event-stream');
+
+    if (stream) {
+      const encoder = new TextEncoder();
+      // Aborted when the client disconnects, cancelling the analysis still to do
+      const disconnect = new AbortController();
+      const events = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (event: string, data: unknown) => {
+            if (disconnect.signal.aborted) return;
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+          };
+          let failed = 0;
+          await analyse(frame => {
+            if (frame.failure) failed++;
+            send('frame', frame);
+          }, disconnect.signal);
+          if (disconnect.signal.aborted) return;
+          send('complete', { count: items.length, failed, fallback: fallback || undefined });
+          controller.close();
+        },
+        cancel() {
+          console.log('[VISION] Client disconnected; cancelling analysis');
+          disconnect.abort();
         }
-
-        frames.push({
-          index: i,
-          tags: Array.isArray(parsed.tags) ? parsed.tags : [],
-          mood: typeof parsed.mood === 'string' ? parsed.mood : 'unknown',
-          subject: typeof parsed.subject === 'string' ? parsed.subject : 'unknown',
-          qualityNotes: typeof parsed.qualityNotes === 'string' ? parsed.qualityNotes : '',
-          suggestedRole: ['opening', 'middle', 'climax', 'ending', 'transition'].includes(parsed.suggestedRole) 
-            ? parsed.suggestedRole 
-            : 'middle'
-        });
-
-        // Small delay to avoid rate limits
-        if (i < body.images.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 100));
+      });
+      return new Response(events, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'X-RateLimit-Remaining': rateLimit.remaining.toString()
         }
+      });
+    }
 
-      } catch (error: any) {
-        clearTimeout(timeout);
-        if (error.name !== 'AbortError') {
-          console.error(`[VISION] Error analyzing image ${i}:`, error.message);
-        }
-        frames.push({
-          index: i,
-          tags: [],
-          mood: 'unknown',
-          subject: 'unknown',
-          qualityNotes: 'Analysis error',
-          suggestedRole: 'middle' as const
-        });
-      }
+    const frames: VisionFrame[] = [];
+    // The request's signal aborts when the client disconnects
+    await analyse(frame => frames.push(frame), req.signal);
+    if (req.signal.aborted) {
+      console.log('[VISION] Client disconnected; analysis cancelled');
     }
+    frames.sort((a, b) => a.index - b.index);
 
-    return new Response(JSON.stringify({ frames }), {
+    return new Response(JSON.stringify({ frames, fallback: fallback || undefined }), {
       status: 200,
       headers: { 
         'Content-Type': 'application/json',
@@ -228,14 +177,8 @@ Return ONLY valid JSON, no markdown.`;
       }
     });
 
-  } catch (error: any) {
+  } catch (error) {
     console.error('[VISION] Error:', error);
-    return new Response(JSON.stringify({ 
-      ok: false, 
-      error: error.message || 'Unknown error' 
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return errorResponse(error);
   }
 }
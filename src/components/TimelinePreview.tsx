@@ -0,0 +1,284 @@
+import { useEffect, useRef, useState } from "react";
+import VideoGenerator from "../utils/VideoGenerator";
+import type { TimelineInfo, TimelineMarker } from "../utils/timelineRenderer";
+import type { ExclusionReason, PhotoScore } from "../utils/photoScoring";
+import type { RenderPlan } from "../types/plan";
+
+interface TimelinePreviewProps {
+  plan: RenderPlan;
+  /** Files the plan's photoIndex values refer to. */
+  photos: File[];
+  /** Scores of the photos the plan leaves out, each with its reason. */
+  leftOut?: PhotoScore[];
+  onClose?: () => void;
+}
+
+/** Everything the player mutates between animation frames. */
+interface Playback {
+  generator: VideoGenerator;
+  info: TimelineInfo;
+  audio: AudioContext;
+  bed: AudioBuffer | null;
+  source: AudioBufferSourceNode | null;
+  /** Clock reading and frame at the moment playback last (re)started. */
+  startedAt: number;
+  startFrame: number;
+  frame: number;
+}
+
+// With music, the audio clock drives the picture so the two cannot drift apart
+function clockSeconds(playback: Playback): number {
+  return playback.bed ? playback.audio.currentTime : performance.now() / 1000;
+}
+
+function startAudio(playback: Playback, frame: number): void {
+  if (!playback.bed) return;
+  void playback.audio.resume();
+  const source = playback.audio.createBufferSource();
+  source.buffer = playback.bed;
+  source.connect(playback.audio.destination);
+  source.start(0, Math.min(frame / playback.info.fps, playback.bed.duration));
+  playback.source = source;
+}
+
+function stopAudio(playback: Playback): void {
+  if (!playback.source) return;
+  try {
+    playback.source.stop();
+  } catch {
+    // Already ended
+  }
+  playback.source.disconnect();
+  playback.source = null;
+}
+
+// Video clips are seeked before their frame can be drawn; when frames are
+// requested faster than seeks finish, only the latest one is drawn
+function showFrame(playback: Playback, frame: number): void {
+  playback.frame = frame;
+  playback.generator.prepareFrame(frame).then(
+    () => {
+      if (playback.frame === frame) playback.generator.drawFrame(frame);
+    },
+    (err) => console.warn('[PREVIEW] Could not seek video clip:', err)
+  );
+}
+
+const EXCLUSION_LABELS: Record<ExclusionReason, string> = {
+  duplicate: "near-duplicate",
+  blurry: "blurry",
+  "poorly-exposed": "poorly exposed",
+  "over-limit": "more photos than the film has room for",
+};
+
+function formatTime(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Plays a plan straight from VideoGenerator's frame drawing, without
+ * encoding anything, so pacing and crops can be checked before export.
+ */
+export default function TimelinePreview({ plan, photos, leftOut = [], onClose }: TimelinePreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playbackRef = useRef<Playback | null>(null);
+  const [info, setInfo] = useState<TimelineInfo | null>(null);
+  const [frame, setFrame] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const generator = new VideoGenerator({ canvas: canvasRef.current! });
+    const audio = new AudioContext();
+    setInfo(null);
+    setError(null);
+    setFrame(0);
+
+    Promise.all([generator.loadTimeline(plan, photos), generator.mixAudio(plan, photos)])
+      .then(([timeline, bed]) => {
+        if (cancelled) return;
+        const playback: Playback = { generator, info: timeline, audio, bed, source: null, startedAt: 0, startFrame: 0, frame: 0 };
+        playbackRef.current = playback;
+        showFrame(playback, 0);
+        setInfo(timeline);
+      })
+      .catch((err) => {
+        console.error('[PREVIEW] Could not load plan:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Could not load the preview");
+      });
+
+    return () => {
+      cancelled = true;
+      if (playbackRef.current) stopAudio(playbackRef.current);
+      playbackRef.current = null;
+      setPlaying(false);
+      void audio.close();
+      void generator.dispose();
+    };
+  }, [plan, photos]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let handle = 0;
+
+    const tick = () => {
+      const playback = playbackRef.current;
+      if (!playback) return;
+      const elapsed = clockSeconds(playback) - playback.startedAt;
+      const next = playback.startFrame + Math.floor(elapsed * playback.info.fps);
+      if (next >= playback.info.totalFrames) {
+        stopAudio(playback);
+        setPlaying(false);
+        return;
+      }
+      if (next !== playback.frame) {
+        showFrame(playback, next);
+        setFrame(next);
+      }
+      handle = requestAnimationFrame(tick);
+    };
+
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [playing]);
+
+  const restartClock = (playback: Playback, from: number) => {
+    stopAudio(playback);
+    startAudio(playback, from);
+    playback.startedAt = clockSeconds(playback);
+    playback.startFrame = from;
+  };
+
+  const seek = (target: number) => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    const next = Math.min(playback.info.totalFrames - 1, Math.max(0, Math.round(target)));
+    showFrame(playback, next);
+    setFrame(next);
+    if (playing) restartClock(playback, next);
+  };
+
+  const togglePlay = () => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    if (playing) {
+      stopAudio(playback);
+      setPlaying(false);
+      return;
+    }
+    // Play again from the top once the end has been reached
+    const from = playback.frame >= playback.info.totalFrames - 1 ? 0 : playback.frame;
+    if (from !== playback.frame) seek(from);
+    restartClock(playback, from);
+    setPlaying(true);
+  };
+
+  const photoMarkers = info?.markers.filter(marker => marker.kind === "clip") ?? [];
+  const transitionMarkers = info?.markers.filter(marker => marker.kind === "transition") ?? [];
+  const isCurrent = (marker: TimelineMarker) => {
+    const index = info?.markers.indexOf(marker) ?? -1;
+    const end = info?.markers[index + 1]?.startFrame ?? info?.totalFrames ?? 0;
+    return frame >= marker.startFrame && frame < end;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="relative w-full bg-black rounded-lg overflow-hidden" style={{ aspectRatio: `${plan.output.width} / ${plan.output.height}` }}>
+        <canvas ref={canvasRef} className="w-full h-full" />
+        {!info && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm">
+            {error ? <span className="text-red-400 px-4 text-center">{error}</span> : <span className="text-gray-400">Loading preview...</span>}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          onClick={togglePlay}
+          disabled={!info}
+          className="px-4 py-2 bg-white text-black text-sm font-medium rounded-sm hover:bg-gray-100 transition-colors disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          {playing ? "Pause" : "Play"}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, (info?.totalFrames ?? 1) - 1)}
+          value={frame}
+          disabled={!info}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="flex-1"
+          aria-label="Timeline position"
+        />
+        <span className="text-xs text-gray-400 tabular-nums">
+          {formatTime(frame / (info?.fps ?? 1))} / {formatTime(info?.durationSeconds ?? 0)}
+        </span>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-800 border border-gray-700 text-white text-sm rounded-sm hover:bg-gray-700 transition-colors"
+          >
+            Close
+          </button>
+        )}
+      </div>
+
+      {photoMarkers.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-500 mb-2">Jump to photo</p>
+          <div className="flex flex-wrap gap-2">
+            {photoMarkers.map(marker => (
+              <button
+                key={`clip-${marker.clipIndex}`}
+                type="button"
+                onClick={() => seek(marker.startFrame)}
+                className={`px-2 py-1 text-xs rounded-sm border transition-colors ${isCurrent(marker) ? "bg-white text-black border-white" : "bg-gray-800 text-gray-300 border-gray-700 hover:bg-gray-700"}`}
+              >
+                {marker.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {transitionMarkers.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-500 mb-2">Jump to transition</p>
+          <div className="flex flex-wrap gap-2">
+            {transitionMarkers.map(marker => (
+              <button
+                key={`transition-${marker.clipIndex}`}
+                type="button"
+                // Start a little early so the cut is seen in context
+                onClick={() => seek(marker.startFrame - (info?.fps ?? 0) / 2)}
+                className={`px-2 py-1 text-xs rounded-sm border transition-colors ${isCurrent(marker) ? "bg-white text-black border-white" : "bg-gray-800 text-gray-300 border-gray-700 hover:bg-gray-700"}`}
+              >
+                {marker.clipIndex + 1} → {marker.clipIndex + 2}: {marker.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {leftOut.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-500 mb-2">Left out</p>
+          <ul className="space-y-1 text-xs text-gray-400">
+            {leftOut.map(score => (
+              <li key={score.index}>
+                <span className="text-gray-300">{photos[score.index].name}</span>
+                {" — "}
+                {EXCLUSION_LABELS[score.excludedBecause ?? "over-limit"]}
+                {score.duplicateOf !== undefined && ` of ${photos[score.duplicateOf].name}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,50 @@
-﻿import { useState } from "react";
+﻿import { useEffect, useMemo, useRef, useState } from "react";
 import VideoPreview from "./VideoPreview";
-import { getImageSequence, type SequenceImage } from "../utils/api";
+import { getImageVision, getStoryPlan, type SequenceFrame, type SequenceImage, type VisionFrame } from "../utils/api";
+import { loadAvailableTracks, rankTracks, type MusicTrackInfo } from "../utils/musicSelector";
+import type { FocusPoint } from "../utils/kenBurns";
+import { chronologicalOrder, ingestUploads, loadImage, type IngestedPhoto, type PhotoMetadata } from "../utils/photoIngest";
+import { sequenceFeatures } from "../utils/photoScoring";
+import { heuristicOrder, type SequenceFeatures } from "../utils/heuristicSequencer";
+import {
+  MAX_CLIP_SECONDS,
+  MIN_CLIP_SECONDS,
+  clampTrim,
+  sampleFrames,
+  type VideoDetails,
+  type VideoTrim
+} from "../utils/videoIngest";
+import VideoGenerator, { type RenderProgress, type VideoGeneratorOptions } from "../utils/VideoGenerator";
+import TimelinePreview from "./TimelinePreview";
+import { LOOK_NAMES, lookLabel, type ColorGrading, type LookName } from "../utils/colorGrading";
+import { DEFAULT_TEMPLATE, TEMPLATE_NAMES, templateLabel, type TemplateName } from "../utils/narrativeTemplates";
+import { TARGET_DURATIONS, targetLabel, type TargetDuration } from "../utils/pacing";
+import type { ClipAudioMode, RenderPlan } from "../types/plan";
+import type { StoryPlan } from "../types/storyPlan";
+import type { PhotoScore } from "../utils/photoScoring";
+
+type OrderingMode = "ai" | "chronological";
+type RenderLocation = "server" | "device";
+
+type EncodedImage = { data: string; filename: string; mimeType: string; id: string; frames?: SequenceFrame[] };
+
+/** A video upload's details and the user's choices for it. */
+type VideoClip = { details: VideoDetails; trim: VideoTrim; audio: ClipAudioMode };
+
+// Stills sampled from each clip for sequencing, and their size
+const SEQUENCE_FRAMES_PER_CLIP = 3;
+const SEQUENCE_FRAME_MAX_EDGE = 768;
 
 export default function UploadFlow() {
   const [files, setFiles] = useState<File[]>([]);
   const [filePreviews, setFilePreviews] = useState<string[]>([]);
+  // Manual focus per photo, parallel to files; undefined = automatic
+  const [focusPoints, setFocusPoints] = useState<(FocusPoint | undefined)[]>([]);
+  const [photoMetadata, setPhotoMetadata] = useState<PhotoMetadata[]>([]);
+  // Parallel to files; undefined for stills
+  const [videoClips, setVideoClips] = useState<(VideoClip | undefined)[]>([]);
+  const [ingesting, setIngesting] = useState(false);
+  const [orderingMode, setOrderingMode] = useState<OrderingMode>("ai");
   const [promptText, setPromptText] = useState<string>("");
   const [outputRatio, setOutputRatio] = useState<string>("16:9");
   const [fps, setFps] = useState<number>(24);
@@ -13,23 +53,75 @@ export default function UploadFlow() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState<{ percent: number; step: string; detail: string } | null>(null);
+  const [musicTracks, setMusicTracks] = useState<MusicTrackInfo[]>([]);
+  const [musicTrackId, setMusicTrackId] = useState<string>(""); // "" = best match
+  const [preview, setPreview] = useState<{ plan: RenderPlan; photos: File[]; leftOut: PhotoScore[] } | null>(null);
+  const [preparingPreview, setPreparingPreview] = useState(false);
+  const [renderLocation, setRenderLocation] = useState<RenderLocation>("server");
+  const [videoBlob, setVideoBlob] = useState<Blob | null>(null);
+  const renderAbortRef = useRef<AbortController | null>(null);
+  const [look, setLook] = useState<LookName>("none");
+  const [template, setTemplate] = useState<TemplateName>(DEFAULT_TEMPLATE);
+  const [targetDuration, setTargetDuration] = useState<TargetDuration | "">(""); // "" = follow the photos
+  const [lutFile, setLutFile] = useState<File | null>(null);
+  const lutUrl = useMemo(() => (lutFile ? URL.createObjectURL(lutFile) : undefined), [lutFile]);
+
+  useEffect(() => () => {
+    if (lutUrl) URL.revokeObjectURL(lutUrl);
+  }, [lutUrl]);
+
+  // The custom look only applies once a .cube file has been chosen
+  const grading: Partial<ColorGrading> = look === "custom" && !lutUrl ? { look: "none" } : { look, lutUrl };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  useEffect(() => {
+    loadAvailableTracks()
+      .then(setMusicTracks)
+      .catch((err) => console.warn('[UploadFlow] Music library unavailable:', err));
+  }, []);
+
+  // Re-rank as the user describes the memory, for the picker; unless the
+  // user picks a track, rendering ranks again with the story's moods
+  const rankedTracks = useMemo(
+    () => rankTracks(musicTracks, { context: promptText }),
+    [musicTracks, promptText]
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const fileArray = Array.from(e.target.files);
-      // Append new files to existing ones
-      const updatedFiles = [...files, ...fileArray];
-      
       // Limit to 36 photos max
-      const finalFiles = updatedFiles.slice(0, 36);
-      setFiles(finalFiles);
-      
-      // Generate preview URLs for new files only
-      const newPreviews = fileArray.slice(0, 36 - files.length).map(file => URL.createObjectURL(file));
-      setFilePreviews([...filePreviews, ...newPreviews].slice(0, 36));
-      
+      const fileArray = Array.from(e.target.files).slice(0, 36 - files.length);
+
       // Reset the input so same files can be selected again if needed
       e.target.value = '';
+
+      // Convert HEIC, read EXIF and trim clips up front so every item can be
+      // previewed; Live Photo stills are folded into their clips
+      setIngesting(true);
+      let ingested: IngestedPhoto[];
+      try {
+        ingested = await ingestUploads(fileArray);
+      } catch (err) {
+        console.error('[UploadFlow] Could not read uploads:', err);
+        setError(err instanceof Error ? err.message : "Could not read the selected files");
+        return;
+      } finally {
+        setIngesting(false);
+      }
+
+      // Append new files to existing ones
+      setFiles(prev => [...prev, ...ingested.map(photo => photo.file)].slice(0, 36));
+      setPhotoMetadata(prev => [...prev, ...ingested.map(photo => photo.metadata)].slice(0, 36));
+      setFilePreviews(prev => [...prev, ...ingested.map(photo => URL.createObjectURL(photo.video?.poster ?? photo.file))].slice(0, 36));
+      setFocusPoints(prev => [...prev, ...ingested.map(() => undefined)].slice(0, 36));
+      setVideoClips(prev => [
+        ...prev,
+        ...ingested.map((photo): VideoClip | undefined => photo.video && {
+          details: photo.video,
+          trim: photo.video.trim,
+          // Live Photo sound is mostly shutter noise and handling
+          audio: photo.video.livePhoto ? "mute" : "duck",
+        }),
+      ].slice(0, 36));
     }
   };
 
@@ -43,6 +135,181 @@ export default function UploadFlow() {
     const newPreviews = filePreviews.filter((_, i) => i !== index);
     setFiles(newFiles);
     setFilePreviews(newPreviews);
+    setFocusPoints(focusPoints.filter((_, i) => i !== index));
+    setPhotoMetadata(photoMetadata.filter((_, i) => i !== index));
+    setVideoClips(videoClips.filter((_, i) => i !== index));
+  };
+
+  const setFocusPoint = (index: number, point: FocusPoint | undefined) => {
+    setFocusPoints(points => points.map((p, i) => (i === index ? point : p)));
+  };
+
+  const updateVideoClip = (index: number, change: Partial<VideoClip>) => {
+    setVideoClips(clips => clips.map((clip, i) => {
+      if (i !== index || !clip) return clip;
+      const next = { ...clip, ...change };
+      return { ...next, trim: clampTrim(next.trim, next.details.durationSeconds) };
+    }));
+  };
+
+  /**
+   * Photo indices in story order: chronological when asked for, otherwise
+   * from the story plan /api/plan returns with them, falling back to the
+   * local heuristic sequencer (and no plan) if that fails. The plan's shots
+   * are renumbered to match the photos once reordered.
+   */
+  const resolveStory = async (imageData: EncodedImage[]): Promise<{ order: number[]; story?: StoryPlan }> => {
+    if (orderingMode === "chronological") {
+      const order = chronologicalOrder(photoMetadata);
+      console.log('[UploadFlow] Chronological ordering:', order);
+      return { order };
+    }
+
+    // Order, roles, framing and transitions from OpenAI via Vercel /api/plan
+    setProgress({ percent: 10, step: "analyzing", detail: "Planning your story..." });
+
+    // Measured up front so both the server and we can order without the AI
+    const features = await readSequenceFeatures(files, videoClips, photoMetadata);
+    const sequenceImages: SequenceImage[] = imageData.map((img, index) => ({
+      id: img.id,
+      base64: img.data,
+      mimeType: img.mimeType,
+      frames: img.frames,
+      features: features[index],
+    }));
+
+    try {
+      const story = await getStoryPlan(
+        sequenceImages,
+        promptText.trim() || undefined,
+        outputRatio,
+        fps
+      );
+      const order = story.shots.map(shot => shot.photoIndex);
+      console.log(`[UploadFlow] Story plan received${story.fallback ? ' (partly heuristic)' : ''}:`, order);
+      if (story.rationale) {
+        console.log('[UploadFlow] Sequence rationale:', story.rationale);
+      }
+      return { order, story: renumberShots(story) };
+    } catch (planError: unknown) {
+      console.warn('[UploadFlow] Plan API failed, ordering locally:', planError instanceof Error ? planError.message : planError);
+      const fallback = heuristicOrder(features);
+      console.log('[UploadFlow] Sequence rationale:', fallback.rationale);
+      return { order: fallback.order };
+    }
+  };
+
+  /**
+   * Vision's findings for each upload, for films rendered without a story
+   * plan to carry them; undefined where an image went unanalysed, or
+   * altogether if the request fails.
+   */
+  const analysePhotos = async (imageData: EncodedImage[]): Promise<(VisionFrame | undefined)[] | undefined> => {
+    setProgress({ percent: 10, step: "analyzing", detail: "Looking at your photos..." });
+    let analysed = 0;
+    try {
+      // Streamed, so progress moves as each image finishes
+      const frames = await getImageVision(
+        imageData.map(img => ({ id: img.id, base64: img.data, mimeType: img.mimeType, frames: img.frames })),
+        () => {
+          analysed++;
+          setProgress({
+            percent: 10 + Math.round((analysed / imageData.length) * 20),
+            step: "analyzing",
+            detail: `Looked at ${analysed} of ${imageData.length} photos...`,
+          });
+        }
+      );
+      const byUpload = new Array<VisionFrame | undefined>(imageData.length);
+      for (const frame of frames) {
+        if (!frame.failure) byUpload[frame.index] = frame;
+      }
+      return byUpload;
+    } catch (visionError: unknown) {
+      console.warn('[UploadFlow] Vision API failed, framing without it:', visionError instanceof Error ? visionError.message : visionError);
+      return undefined;
+    }
+  };
+
+  /** Plan the film in the browser and open it in the timeline preview. */
+  const handlePreview = async () => {
+    setPreparingPreview(true);
+    setError(null);
+    try {
+      const imageData = await readImageData(files, videoClips);
+      const { order, story } = await resolveStory(imageData);
+      // Without a plan, vision alone supplies the subjects to keep in frame
+      const vision = story ? undefined : await analysePhotos(imageData);
+      setProgress(null);
+      const ordered = order.map(index => files[index]);
+      const generator = new VideoGenerator({
+        render: { aspectRatio: outputRatio, fps, grading },
+        musicTrackId: musicTrackId || undefined,
+        focusPoints: order.map(index => focusPoints[index]),
+        videoTrims: order.map(index => videoClips[index]?.trim),
+        clipAudio: order.map(index => videoClips[index]?.audio),
+        template,
+        targetDuration: targetDuration || undefined,
+        story,
+        ...visionOptions(order, vision),
+      });
+      const selection = await generator.analyzePhotos(ordered);
+      const plan = await generator.planVideo(ordered, promptText.trim() || undefined, selection);
+      // Fitting a target length can leave out more photos than scoring did
+      const used = new Set(plan.clips.map(clip => clip.photoIndex));
+      const leftOut = selection.scores
+        .filter(score => !used.has(score.index))
+        .map(score => ({ ...score, excludedBecause: score.excludedBecause ?? "over-limit" as const }));
+      setPreview({ plan, photos: ordered, leftOut });
+    } catch (err) {
+      console.error('[UploadFlow] Preview failed:', err);
+      setError(err instanceof Error ? err.message : "Could not build the preview");
+      setProgress(null);
+    } finally {
+      setPreparingPreview(false);
+    }
+  };
+
+  /**
+   * Render in the browser with VideoGenerator, reporting through the same
+   * progress bar as the server stream. Cancel aborts the job.
+   */
+  const renderOnDevice = async (order: number[], story?: StoryPlan, vision?: (VisionFrame | undefined)[]) => {
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
+    try {
+      const generator = new VideoGenerator({
+        render: { aspectRatio: outputRatio, fps, grading },
+        musicTrackId: musicTrackId || undefined,
+        focusPoints: order.map(index => focusPoints[index]),
+        videoTrims: order.map(index => videoClips[index]?.trim),
+        clipAudio: order.map(index => videoClips[index]?.audio),
+        template,
+        targetDuration: targetDuration || undefined,
+        story,
+        ...visionOptions(order, vision),
+      });
+      const blob = await generator.createVideo(order.map(index => files[index]), promptText.trim() || undefined, {
+        signal: controller.signal,
+        onProgress: (update) => setProgress({
+          percent: update.percent,
+          step: update.phase,
+          detail: renderDetail(update),
+        }),
+      });
+      setVideoBlob(blob);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        console.log('[UploadFlow] Client render cancelled');
+      } else {
+        console.error('[UploadFlow] Client render failed:', err);
+        setError(err instanceof Error ? err.message : "Failed to create video");
+      }
+    } finally {
+      renderAbortRef.current = null;
+      setLoading(false);
+      setProgress(null);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -58,65 +325,27 @@ export default function UploadFlow() {
 
     try {
       // Convert files to base64 for sequence analysis
-      const imageData = await Promise.all(
-        files.map(async (file, index) => {
-          return new Promise<{ data: string; filename: string; mimeType: string; id: string }>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onload = () => {
-              const base64 = reader.result as string;
-              const base64Data = base64.split(",")[1];
-              resolve({
-                data: base64Data,
-                filename: file.name,
-                mimeType: file.type,
-                id: String(index),
-              });
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(file);
-          });
-        })
-      );
+      const imageData = await readImageData(files, videoClips);
+      const { order: optimalOrder, story } = await resolveStory(imageData);
 
-      // Step 1: Get optimal image ordering from OpenAI via Vercel /api/sequence
-      setProgress({ percent: 10, step: "analyzing", detail: "Determining optimal image sequence..." });
-      
-      const sequenceImages: SequenceImage[] = imageData.map(img => ({
-        id: img.id,
-        base64: img.data,
-        mimeType: img.mimeType,
-      }));
-
-      let optimalOrder: number[];
-      try {
-        const sequenceResponse = await getImageSequence(
-          sequenceImages,
-          promptText.trim() || undefined,
-          outputRatio,
-          fps
-        );
-        optimalOrder = sequenceResponse.order;
-        console.log('[UploadFlow] Sequence ordering received:', optimalOrder);
-        if (sequenceResponse.rationale) {
-          console.log('[UploadFlow] Sequence rationale:', sequenceResponse.rationale);
-        }
-      } catch (seqError: any) {
-        console.warn('[UploadFlow] Sequence API failed, using original order:', seqError.message);
-        // Fallback to original order if sequence API fails
-        optimalOrder = Array.from({ length: files.length }, (_, i) => i);
+      if (renderLocation === "device") {
+        const vision = story ? undefined : await analysePhotos(imageData);
+        await renderOnDevice(optimalOrder, story, vision);
+        return;
       }
 
       // Step 2: Reorder images based on optimal sequence
       const reorderedData = optimalOrder.map(index => imageData[index]);
       
       // Convert to format expected by Railway backend
-      const photos = reorderedData.map(img => ({
+      const photos = reorderedData.map((img, position) => ({
         data: img.data,
         filename: img.filename,
         mimeType: img.mimeType,
+        focus: focusPoints[optimalOrder[position]],
       }));
 
-      // Step 3: Send ordered photos to Railway backend for video rendering
+      // Step 3: Send ordered photos, and the story plan they follow, to Railway backend for video rendering
       setProgress({ percent: 30, step: "rendering", detail: "Creating your memory video..." });
 
       // Use fetch with streaming response for SSE progress updates
@@ -132,6 +361,9 @@ export default function UploadFlow() {
           outputRatio,
           fps,
           promptText: promptText.trim(),
+          musicTrackId: musicTrackId || undefined,
+          // Its shots are numbered by position in `photos`
+          storyPlan: story,
         }),
       });
 
@@ -212,6 +444,15 @@ export default function UploadFlow() {
     }
   };
 
+  if (videoBlob) {
+    return (
+      <VideoPreview
+        videoBlob={videoBlob}
+        onBack={() => setVideoBlob(null)}
+      />
+    );
+  }
+
   if (videoPath) {
     return (
       <VideoPreview 
@@ -242,7 +483,7 @@ export default function UploadFlow() {
               <input
                 type="file"
                 multiple
-                accept="image/*"
+                accept="image/*,video/*,.heic,.heif,.mov"
                 onChange={handleFileChange}
                 id="file-input"
                 className="hidden"
@@ -267,6 +508,9 @@ export default function UploadFlow() {
                 {files.length} photo{files.length !== 1 ? "s" : ""} selected
               </p>
             )}
+            {ingesting && (
+              <p className="mt-2 text-gray-500 text-sm">Preparing photos...</p>
+            )}
           </div>
           
           {/* Prompt/Storytelling Context */}
@@ -293,6 +537,9 @@ export default function UploadFlow() {
                 <h2 className="text-lg font-medium text-white">Selected Photos</h2>
                 <span className="text-sm text-gray-400">{files.length} / 36</span>
               </div>
+              <p className="text-xs text-gray-500">
+                Click a photo to mark the spot that must stay in frame when it is cropped
+              </p>
               <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-4">
                 {filePreviews.map((preview, index) => (
                   <div
@@ -302,15 +549,18 @@ export default function UploadFlow() {
                     <img
                       src={preview}
                       alt={`Preview ${index + 1}`}
-                      className="w-full h-full object-cover"
+                      onClick={(e) => setFocusPoint(index, focusFromClick(e, focusPoints[index]))}
+                      style={focusPoints[index] ? { objectPosition: objectPosition(focusPoints[index]!) } : undefined}
+                      className="w-full h-full object-cover cursor-crosshair"
                     />
                     <button
                       type="button"
                       onClick={() => removeFile(index)}
-                      className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+                      aria-label={`Remove photo ${index + 1}`}
+                      className="absolute top-1 right-1 p-1 bg-black/70 rounded opacity-0 group-hover:opacity-100 transition-opacity"
                     >
                       <svg
-                        className="w-6 h-6 text-white"
+                        className="w-4 h-4 text-white"
                         fill="none"
                         stroke="currentColor"
                         viewBox="0 0 24 24"
@@ -326,12 +576,81 @@ export default function UploadFlow() {
                     <div className="absolute top-1 left-1 bg-black/70 text-white text-xs px-1.5 py-0.5 rounded">
                       {index + 1}
                     </div>
+                    {videoClips[index] && (
+                      <div className="absolute bottom-1 right-1 bg-black/70 text-white text-xs px-1.5 py-0.5 rounded">
+                        {videoClips[index]!.details.livePhoto ? "Live" : "Clip"}
+                      </div>
+                    )}
+                    {focusPoints[index] && (
+                      <button
+                        type="button"
+                        onClick={() => setFocusPoint(index, undefined)}
+                        title="Clear focus point"
+                        className="absolute bottom-1 left-1 bg-blue-600/80 text-white text-xs px-1.5 py-0.5 rounded"
+                      >
+                        Focus ×
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
             </div>
           )}
 
+          {videoClips.some(Boolean) && (
+            <div className="space-y-3">
+              <h2 className="text-lg font-medium text-white">Video Clips</h2>
+              <p className="text-xs text-gray-500">
+                Each clip plays its trimmed part in previews and on-device renders; our servers use its first frame as a photo
+              </p>
+              {videoClips.map((clip, index) => {
+                if (!clip) return null;
+                const length = clip.trim.endSeconds - clip.trim.startSeconds;
+                const maxLength = Math.min(MAX_CLIP_SECONDS, clip.details.durationSeconds);
+                return (
+                  <div key={index} className="flex flex-wrap items-center gap-4 p-3 bg-gray-800 border border-gray-700 rounded-sm">
+                    <span className="text-sm text-white w-10">#{index + 1}</span>
+                    <label className="flex items-center gap-2 text-xs text-gray-400">
+                      Start {clip.trim.startSeconds.toFixed(1)}s
+                      <input
+                        type="range"
+                        min={0}
+                        max={Math.max(0, clip.details.durationSeconds - length)}
+                        step={0.1}
+                        value={clip.trim.startSeconds}
+                        onChange={(e) => {
+                          const start = Number(e.target.value);
+                          updateVideoClip(index, { trim: { startSeconds: start, endSeconds: start + length } });
+                        }}
+                      />
+                    </label>
+                    <label className="flex items-center gap-2 text-xs text-gray-400">
+                      Length {length.toFixed(1)}s
+                      <input
+                        type="range"
+                        min={Math.min(MIN_CLIP_SECONDS, maxLength)}
+                        max={maxLength}
+                        step={0.1}
+                        value={length}
+                        onChange={(e) => updateVideoClip(index, {
+                          trim: { startSeconds: clip.trim.startSeconds, endSeconds: clip.trim.startSeconds + Number(e.target.value) },
+                        })}
+                      />
+                    </label>
+                    <select
+                      value={clip.audio}
+                      onChange={(e) => updateVideoClip(index, { audio: e.target.value as ClipAudioMode })}
+                      className="px-2 py-1 bg-gray-800 border border-gray-700 text-white text-xs rounded-sm focus:outline-none focus:border-gray-600"
+                    >
+                      <option value="duck" className="bg-gray-800">Own sound, music lowered</option>
+                      <option value="mute" className="bg-gray-800">Muted, music only</option>
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
               <label className="block text-gray-300 text-sm font-medium mb-2">
@@ -345,6 +664,7 @@ export default function UploadFlow() {
                 <option value="16:9" className="bg-gray-800">16:9 (HD)</option>
                 <option value="2.39:1" className="bg-gray-800">2.39:1 (Film Wide)</option>
                 <option value="1:1" className="bg-gray-800">1:1 (Square)</option>
+                <option value="9:16" className="bg-gray-800">9:16 (Vertical)</option>
               </select>
             </div>
 
@@ -363,6 +683,125 @@ export default function UploadFlow() {
             </div>
           </div>
 
+          <div>
+            <label className="block text-gray-300 text-sm font-medium mb-2">
+              Story Template
+            </label>
+            <select
+              value={template}
+              onChange={(e) => setTemplate(e.target.value as TemplateName)}
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 text-white rounded-sm focus:outline-none focus:border-gray-600"
+            >
+              {TEMPLATE_NAMES.map(name => (
+                <option key={name} value={name} className="bg-gray-800">{templateLabel(name)}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Sets the story's pacing, transitions and title style for previews and on-device renders
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-gray-300 text-sm font-medium mb-2">
+              Length
+            </label>
+            <select
+              value={targetDuration}
+              onChange={(e) => {
+                const value = e.target.value;
+                setTargetDuration(value === "" || value === "song" ? value : (Number(value) as TargetDuration));
+              }}
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 text-white rounded-sm focus:outline-none focus:border-gray-600"
+            >
+              <option value="" className="bg-gray-800">As long as the photos need</option>
+              {TARGET_DURATIONS.map(target => (
+                <option key={target} value={target} className="bg-gray-800">{targetLabel(target)}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Weaker photos are left out and timings adjusted to hit the length to the frame
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-gray-300 text-sm font-medium mb-2">
+              Look
+            </label>
+            <select
+              value={look}
+              onChange={(e) => setLook(e.target.value as LookName)}
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 text-white rounded-sm focus:outline-none focus:border-gray-600"
+            >
+              {LOOK_NAMES.map(name => (
+                <option key={name} value={name} className="bg-gray-800">{lookLabel(name)}</option>
+              ))}
+            </select>
+            {look === "custom" && (
+              <input
+                type="file"
+                accept=".cube"
+                onChange={(e) => setLutFile(e.target.files?.[0] ?? null)}
+                className="mt-2 block w-full text-sm text-gray-400 file:mr-4 file:py-1 file:px-3 file:rounded-sm file:border-0 file:bg-gray-700 file:text-white"
+              />
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              Photos are balanced for exposure and colour first; looks apply to previews and on-device renders
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-gray-300 text-sm font-medium mb-2">
+              Photo Order
+            </label>
+            <select
+              value={orderingMode}
+              onChange={(e) => setOrderingMode(e.target.value as OrderingMode)}
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 text-white rounded-sm focus:outline-none focus:border-gray-600"
+            >
+              <option value="ai" className="bg-gray-800">AI storytelling order</option>
+              <option value="chronological" className="bg-gray-800">Chronological (when each photo was taken)</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-gray-300 text-sm font-medium mb-2">
+              Render On
+            </label>
+            <select
+              value={renderLocation}
+              onChange={(e) => setRenderLocation(e.target.value as RenderLocation)}
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 text-white rounded-sm focus:outline-none focus:border-gray-600"
+            >
+              <option value="server" className="bg-gray-800">Our servers</option>
+              <option value="device" className="bg-gray-800">This device</option>
+            </select>
+          </div>
+
+          {rankedTracks.length > 0 && (
+            <div>
+              <label className="block text-gray-300 text-sm font-medium mb-2">
+                Music
+              </label>
+              <select
+                value={musicTrackId}
+                onChange={(e) => setMusicTrackId(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-800 border border-gray-700 text-white rounded-sm focus:outline-none focus:border-gray-600"
+              >
+                <option value="" className="bg-gray-800">
+                  Best match: {trackLabel(rankedTracks[0].track)}
+                </option>
+                {rankedTracks.map(({ track, matchedMoods }) => (
+                  <option key={track.id} value={track.id} className="bg-gray-800">
+                    {trackLabel(track)}{matchedMoods.length > 0 ? ` (${matchedMoods.join(", ")})` : ""}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Ranked by how well each track fits your storytelling context
+              </p>
+            </div>
+          )}
+
           {progress && (
             <div className="space-y-2">
               <div className="w-full bg-gray-800 rounded-full h-2.5 dark:bg-gray-700">
@@ -383,16 +822,161 @@ export default function UploadFlow() {
             </div>
           )}
 
+          {preview && (
+            <TimelinePreview
+              plan={preview.plan}
+              photos={preview.photos}
+              leftOut={preview.leftOut}
+              onClose={() => setPreview(null)}
+            />
+          )}
+
+          <button
+            type="button"
+            onClick={handlePreview}
+            disabled={loading || ingesting || preparingPreview || files.length < 6}
+            className="w-full px-12 py-3 bg-gray-800 border border-gray-700 text-white text-sm font-medium tracking-wide rounded-sm hover:bg-gray-700 transition-all duration-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+          >
+            {preparingPreview ? "Preparing Preview..." : preview ? "Refresh Preview" : "Preview Timeline"}
+          </button>
+
           <button
             type="submit"
-            disabled={loading || files.length < 6}
+            disabled={loading || ingesting || files.length < 6}
             className="w-full group relative px-12 py-4 bg-white text-black text-sm font-medium tracking-wide rounded-sm hover:bg-gray-100 transition-all duration-300 disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed"
           >
             {loading ? "Creating Memory..." : "Create Memory"}
             <div className="absolute inset-0 rounded-sm ring-1 ring-white/20 group-hover:ring-white/40 transition-all duration-300"></div>
           </button>
+
+          {loading && renderLocation === "device" && (
+            <button
+              type="button"
+              onClick={() => renderAbortRef.current?.abort()}
+              className="w-full px-12 py-3 bg-gray-800 border border-gray-700 text-white text-sm font-medium tracking-wide rounded-sm hover:bg-gray-700 transition-all duration-300"
+            >
+              Cancel
+            </button>
+          )}
         </form>
       </div>
     </div>
   );
 }
+
+function readBase64(blob: Blob): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Base64 payloads for the sequencing and rendering APIs. A video clip is
+ * sent as its poster, with a few frames sampled from its trim window for
+ * sequencing.
+ */
+function readImageData(files: File[], videoClips: (VideoClip | undefined)[]): Promise<EncodedImage[]> {
+  return Promise.all(
+    files.map(async (file, index): Promise<EncodedImage> => {
+      const clip = videoClips[index];
+      const still = clip?.details.poster ?? file;
+      const encoded: EncodedImage = {
+        data: await readBase64(still),
+        filename: still.name,
+        mimeType: still.type,
+        id: String(index),
+      };
+      if (!clip) return encoded;
+
+      try {
+        const frames = await sampleFrames(file, clip.trim, SEQUENCE_FRAMES_PER_CLIP, SEQUENCE_FRAME_MAX_EDGE);
+        encoded.frames = await Promise.all(frames.map(async (frame) => ({ base64: await readBase64(frame), mimeType: frame.type })));
+      } catch (err) {
+        console.warn('[UploadFlow] Could not sample clip frames; sending the poster only:', file.name, err);
+      }
+      return encoded;
+    })
+  );
+}
+
+/**
+ * What the heuristic sequencer needs for each upload: colour and structure
+ * from the photo or clip poster, capture time from EXIF. Uploads that fail
+ * to decode keep just their time.
+ */
+function readSequenceFeatures(
+  files: File[],
+  videoClips: (VideoClip | undefined)[],
+  metadata: PhotoMetadata[]
+): Promise<SequenceFeatures[]> {
+  const canvas = document.createElement("canvas");
+  return Promise.all(
+    files.map(async (file, index): Promise<SequenceFeatures> => {
+      const capturedAt = metadata[index]?.capturedAt;
+      try {
+        const img = await loadImage(videoClips[index]?.details.poster ?? file);
+        return { ...sequenceFeatures(img, canvas), capturedAt };
+      } catch (err) {
+        console.warn('[UploadFlow] Could not measure for sequencing:', file.name, err);
+        return { capturedAt };
+      }
+    })
+  );
+}
+
+/** Subject boxes and moods from vision for VideoGenerator, with the photos in `order`. */
+function visionOptions(
+  order: number[],
+  vision?: (VisionFrame | undefined)[]
+): Pick<VideoGeneratorOptions, "subjects" | "photoMoods"> {
+  if (!vision) return {};
+  return {
+    subjects: order.map(index => vision[index]?.subjects),
+    photoMoods: order
+      .map(index => vision[index]?.mood)
+      .filter((mood): mood is string => mood !== undefined && mood !== "unknown"),
+  };
+}
+
+/**
+ * `story` with each shot's photoIndex set to its position, for use with
+ * the photos reordered to follow it; /api/plan numbers them by upload.
+ */
+function renumberShots(story: StoryPlan): StoryPlan {
+  return { ...story, shots: story.shots.map((shot, position) => ({ ...shot, photoIndex: position })) };
+}
+
+function renderDetail(progress: RenderProgress): string {
+  if (progress.phase === "planning") return "Planning your film...";
+  if (progress.phase === "preparing") return "Preparing photos and music...";
+  if (progress.phase === "finalizing") return "Finishing the file...";
+  const eta = progress.etaSeconds !== null ? `, about ${Math.ceil(progress.etaSeconds)}s left` : "";
+  return `Frame ${progress.frame} of ${progress.totalFrames}${eta}`;
+}
+
+function objectPosition(point: FocusPoint): string {
+  return `${(point.x * 100).toFixed(1)}% ${(point.y * 100).toFixed(1)}%`;
+}
+
+// Map a click on an object-cover thumbnail back to normalised image coordinates
+function focusFromClick(e: React.MouseEvent<HTMLImageElement>, current?: FocusPoint): FocusPoint {
+  const img = e.currentTarget;
+  const rect = img.getBoundingClientRect();
+  const scale = Math.max(rect.width / img.naturalWidth, rect.height / img.naturalHeight);
+  const shownWidth = img.naturalWidth * scale;
+  const shownHeight = img.naturalHeight * scale;
+  const offsetX = (rect.width - shownWidth) * (current?.x ?? 0.5);
+  const offsetY = (rect.height - shownHeight) * (current?.y ?? 0.5);
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  return {
+    x: clamp((e.clientX - rect.left - offsetX) / shownWidth),
+    y: clamp((e.clientY - rect.top - offsetY) / shownHeight),
+  };
+}
+
+function trackLabel(track: MusicTrackInfo): string {
+  return track.file.replace(/\.mp3$/i, "");
+}
@@ -13,6 +13,8 @@ type SignedPayload = {
 
 interface VideoPreviewProps {
   path?: string;
+  /** Client-rendered video (MP4 or WebM) to play instead of a stored path. */
+  videoBlob?: Blob;
   memoryId?: string;
   onBack?: () => void;
 }
@@ -67,9 +69,17 @@ async function probePlaybackUrl(url: string) {
   }
 }
 
-export default function VideoPreview({ path: propPath, memoryId, onBack }: VideoPreviewProps = {}) {
+function fileExtension(mimeType: string): string {
+  return mimeType.startsWith('video/webm') ? 'webm' : 'mp4';
+}
+
+export default function VideoPreview({ path: propPath, videoBlob, memoryId: propMemoryId, onBack }: VideoPreviewProps = {}) {
   const [path, setPath] = useState<string>(propPath || '');
   const [videoSrc, setVideoSrc] = useState<string>('');
+  const [videoType, setVideoType] = useState<string>('video/mp4');
+  // Local renders have no stored path to derive an id from
+  const [localMemoryId] = useState<string>(() => `local-${Date.now()}`);
+  const memoryId = propMemoryId || (videoBlob ? localMemoryId : undefined);
   const [error, setError] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(true);
   const [showPaywall, setShowPaywall] = useState<boolean>(false);
@@ -104,6 +114,23 @@ export default function VideoPreview({ path: propPath, memoryId, onBack }: Video
     setPath(propPath);
   }, [propPath]);
 
+  useEffect(() => {
+    if (!videoBlob) return;
+    const objectUrl = URL.createObjectURL(videoBlob);
+    const type = videoBlob.type || 'video/mp4';
+    downloadUrlRef.current = objectUrl;
+    setVideoType(type);
+    setVideoSrc(objectUrl);
+    setError('');
+    setLoading(false);
+    console.log('[VIDEO] Playing client-rendered video:', type, videoBlob.size, 'bytes');
+
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      downloadUrlRef.current = null;
+    };
+  }, [videoBlob]);
+
   useEffect(() => {
     let cancelled = false;
     async function load() {
@@ -142,6 +169,7 @@ export default function VideoPreview({ path: propPath, memoryId, onBack }: Video
         }
 
         if (!cancelled) {
+          setVideoType('video/mp4');
           setVideoSrc(playbackUrl);
           console.log('[VIDEO] MODE:', isDev ? 'DEV (S3 only)' : 'PROD (CDN preferred)', 'initialSrc=', playbackUrl);
         }
@@ -187,7 +215,7 @@ export default function VideoPreview({ path: propPath, memoryId, onBack }: Video
       while (videoEl.firstChild) videoEl.removeChild(videoEl.firstChild);
       const source = document.createElement('source');
       source.src = videoSrc;
-      source.type = 'video/mp4';
+      source.type = videoType;
       videoEl.appendChild(source);
       videoEl.load();
       
@@ -195,7 +223,7 @@ export default function VideoPreview({ path: propPath, memoryId, onBack }: Video
         videoEl.removeEventListener('error', handleError);
       };
     }
-  }, [videoSrc]);
+  }, [videoSrc, videoType]);
 
   const handleDownload = async () => {
     if (!downloadUrlRef.current) {
@@ -234,7 +262,7 @@ export default function VideoPreview({ path: propPath, memoryId, onBack }: Video
       // Create download link
       const link = document.createElement('a');
       link.href = url;
-      link.download = `trace-${memId}.mp4`;
+      link.download = `trace-${memId}.${fileExtension(videoType)}`;
       link.style.display = 'none';
       document.body.appendChild(link);
       
@@ -345,7 +373,7 @@ export default function VideoPreview({ path: propPath, memoryId, onBack }: Video
               disabled={downloading || !videoSrc || loading}
               className="px-8 py-3 bg-white text-black text-sm font-medium tracking-wide rounded-sm hover:bg-gray-100 transition-all duration-300 disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed"
             >
-              {downloading ? 'Downloading...' : 'Download MP4'}
+              {downloading ? 'Downloading...' : `Download ${fileExtension(videoType).toUpperCase()}`}
             </button>
             <button
               onClick={onBack || (() => window.history.back())}
@@ -0,0 +1,29 @@
+/**
+ * Drawing surfaces shared by the main-thread renderer and the render
+ * worker. Everything that paints frames accepts either kind of context, so
+ * the same code draws the live preview and the offscreen export.
+ */
+
+export type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * A decoded photo: an <img> on the main thread, an ImageBitmap in the
+ * worker, or the canvas a graded copy was drawn into.
+ */
+export type DrawableImage = HTMLImageElement | ImageBitmap | HTMLCanvasElement | OffscreenCanvas;
+
+/** What a clip draws from: a photo, or a video seeked to the frame being drawn. */
+export type DrawableMedia = DrawableImage | HTMLVideoElement;
+
+// Checked structurally because workers have no HTMLVideoElement to test against
+export function isVideoElement(media: DrawableMedia): media is HTMLVideoElement {
+  return 'videoWidth' in media;
+}
+
+/** Pixel size of a decoded photo or video, whichever form it is in. */
+export function imageSize(image: DrawableMedia): { width: number; height: number } {
+  if (isVideoElement(image)) return { width: image.videoWidth, height: image.videoHeight };
+  return 'naturalWidth' in image
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+}
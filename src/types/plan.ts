@@ -1,7 +1,138 @@
+import type { FocalSource } from '../utils/focalRegion';
+import type { MotionEasing, MotionEffect } from '../utils/kenBurns';
+import type { RenderSettings } from '../utils/renderSettings';
+import type { RevealStyle } from '../utils/typography';
 
+/**
+ * RenderPlan: the complete, JSON-serialisable description of a memory video.
+ * Anything that can produce one (the built-in narrative builder, a server
+ * planner, a saved file) can hand it to VideoGenerator.renderPlan together
+ * with the photos it refers to, and the render is reproducible.
+ */
 
+export const RENDER_PLAN_VERSION = 1;
 
+/** Rectangle in normalised (0-1) source-image coordinates. */
+export interface PlanRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
+/** Region the motion keeps in frame, and where it came from. */
+export interface PlanFocalRegion extends PlanRect {
+  source: FocalSource;
+}
 
+export interface PlanMotion {
+  from: PlanRect;
+  to: PlanRect;
+  easing: MotionEasing;
+}
 
+/** Name of a transition in the registry (src/utils/transitions.ts), e.g. 'cross_zoom'. */
+export type PlanTransitionType = string;
 
+export interface PlanTransition {
+  type: PlanTransitionType;
+  /** Length of the blend between the two clips. */
+  durationSeconds: number;
+  /** Extra time the outgoing clip stays on its last frame before the blend. */
+  holdSeconds: number;
+}
+
+/** Name and detail label in the lower left of the frame, e.g. a place and date. */
+export interface PlanLowerThird {
+  title: string;
+  subtitle?: string;
+  reveal?: RevealStyle;
+}
+
+/** What a video clip does with its own soundtrack. */
+export type ClipAudioMode = 'mute' | 'duck';
+
+/** Source window of a video clip; playback starts at the trim start in real time. */
+export interface PlanVideo {
+  trimStartSeconds: number;
+  /** The last frame is held if the clip is on screen past this point. */
+  trimEndSeconds: number;
+  /** 'duck' plays the clip's sound and lowers the music under it. */
+  audio: ClipAudioMode;
+}
+
+export interface PlanClip {
+  /** Index into the photo list the plan is rendered with. */
+  photoIndex: number;
+  durationSeconds: number;
+  effect: MotionEffect;
+  motion: PlanMotion;
+  focalRegion?: PlanFocalRegion;
+  /** Narrative phase the clip belongs to, for inspection. */
+  phase?: string;
+  caption?: string;
+  lowerThird?: PlanLowerThird;
+  /** Transition into the next clip; omitted on the last clip. */
+  transition?: PlanTransition;
+  /** Present when the photoIndex refers to a video file rather than a still. */
+  video?: PlanVideo;
+}
+
+/** Typeface of a text role; each maps to a face the renderer loads. */
+export type PlanFont = 'serif' | 'sans';
+
+/** Look of a text role; anything omitted keeps the renderer's default. */
+export interface PlanTextStyle {
+  font?: PlanFont;
+  color?: string;
+  uppercase?: boolean;
+  /** Multiplier on the role's default text size. */
+  scale?: number;
+}
+
+/** Template styling: `title` covers the title and end card titles. */
+export interface PlanTypography {
+  title?: PlanTextStyle;
+  caption?: PlanTextStyle;
+}
+
+export interface PlanTitle {
+  text: string;
+  durationSeconds: number;
+  reveal?: RevealStyle;
+}
+
+/** Closing card shown after the last clip, before the fade to black. */
+export interface PlanEndCard {
+  title: string;
+  /** Preformatted, e.g. "March – June 2024". */
+  dateRange?: string;
+  credits: string[];
+  durationSeconds: number;
+  reveal?: RevealStyle;
+}
+
+export interface PlanAudioCue {
+  trackId: string;
+  url: string;
+  /** Where in the track the video starts. */
+  startOffsetSeconds: number;
+  fadeInSeconds: number;
+  fadeOutSeconds: number;
+  bpm?: number;
+  /** Attribution line for the end card. */
+  credit?: string;
+}
+
+export interface RenderPlan {
+  version: typeof RENDER_PLAN_VERSION;
+  output: RenderSettings;
+  title: PlanTitle | null;
+  clips: PlanClip[];
+  audio: PlanAudioCue | null;
+  endCard?: PlanEndCard | null;
+  fadeOutSeconds: number;
+  /** Narrative template the plan was built from, for inspection. */
+  template?: string;
+  typography?: PlanTypography;
+}
@@ -0,0 +1,50 @@
+import type { FocalRegion } from '../utils/focalRegion';
+import type { MotionEffect } from '../utils/kenBurns';
+
+/**
+ * StoryPlan: the server's editorial plan for a set of uploads, from
+ * POST /api/plan. It decides the order and how each photo should play (its
+ * role in the arc, how long it stays relative to the others, its motion
+ * and what must stay in frame) along with the transitions, a title and a
+ * music mood. VideoGenerator turns it into a RenderPlan, adding what needs
+ * the pixels and the track: exact crops, beat-snapped timings and the
+ * music itself.
+ */
+
+export const STORY_PLAN_VERSION = 1;
+
+export type StoryRole = 'opening' | 'middle' | 'climax' | 'ending' | 'transition';
+
+/** The music manifest's mood vocabulary (see musicSelector). */
+export const MUSIC_MOODS = [
+  'romantic', 'tender', 'warm', 'uplifting', 'nostalgic', 'playful', 'light', 'groovy', 'hopeful', 'inspiring',
+  'adventure', 'cinematic', 'open', 'calm', 'contemplative', 'reflective', 'melancholic', 'emotional', 'quiet'
+] as const;
+
+export type MusicMood = typeof MUSIC_MOODS[number];
+
+export interface StoryShot {
+  /** Index into the uploads. */
+  photoIndex: number;
+  role: StoryRole;
+  /** Time on screen relative to the template's planned length; 1 keeps it. */
+  durationWeight: number;
+  effect: MotionEffect;
+  /** Subjects to keep in frame, from vision; absent when none were found. */
+  focalRegion?: FocalRegion;
+  mood: string;
+}
+
+export interface StoryPlan {
+  version: number;
+  /** In playing order. */
+  shots: StoryShot[];
+  /** Transition after each shot but the last, by registry name (see transitions.ts). */
+  transitions: string[];
+  title: string;
+  musicMood: MusicMood;
+  beats: string[];
+  rationale: string;
+  /** Set when ordering fell back to the heuristic sequencer or any image went unanalysed. */
+  fallback?: boolean;
+}
@@ -1,33 +1,164 @@
-interface ImageData {
-  img: HTMLImageElement;
-  duration: number;
-  effect: 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right' | 'static';
+import WebCodecsExporter, { decodeAudioTrack } from './WebCodecsExporter';
+import {
+  DEFAULT_MOTION,
+  planMotion,
+  type FocusPoint,
+  type MotionEffect,
+  type MotionOptions
+} from './kenBurns';
+import { regionCenter, regionToPixels, resolveFocalRegion, type SubjectBox } from './focalRegion';
+import { resolveRenderSettings, safeAreaCenter, type RenderSettings, type RenderSettingsInput } from './renderSettings';
+import { analyzeBeats, offsetAnalysis, phaseAt, type BeatAnalysis, type NarrativePhase } from './beatAnalysis';
+import { createPlaybackStream, mixClipAudio, mixMusicBed, type ClipSound } from './audioMixer';
+import { loadAvailableTracks, rankTracks, trackCredit, type MusicTrackInfo, type RankedTrack } from './musicSelector';
+import { clipStartSeconds, planDurationSeconds, toPlanMotion, validateRenderPlan } from './renderPlan';
+import { ingestPhoto, ingestPhotos } from './photoIngest';
+import { clampTrim, loadVideo, releaseVideo, type VideoDetails, type VideoTrim } from './videoIngest';
+import { scorePhotos, selectPhotos, type PhotoSelection } from './photoScoring';
+import { getTransition, isAllowedIn } from './transitions';
+import {
+  DEFAULT_TEMPLATE,
+  getTemplate,
+  templateCapacity,
+  templateSlots,
+  type NarrativeTemplate,
+  type TemplateName
+} from './narrativeTemplates';
+import { distribute, photoCountFor, TRANSITION_SCALE_RANGE, type DurationBounds, type TargetDuration } from './pacing';
+import { formatDateRange } from './typography';
+import TimelineRenderer, { type TimelineInfo } from './timelineRenderer';
+import { canRenderInWorker, renderInWorker } from './renderWorkerClient';
+import type { DrawableMedia } from '../types/canvas';
+import {
+  RENDER_PLAN_VERSION,
+  type ClipAudioMode,
+  type PlanAudioCue,
+  type PlanClip,
+  type PlanEndCard,
+  type PlanLowerThird,
+  type PlanTransition,
+  type RenderPlan
+} from '../types/plan';
+import type { StoryPlan, StoryShot } from '../types/storyPlan';
+
+export type RenderPhase = 'planning' | 'preparing' | 'rendering' | 'finalizing';
+
+export interface RenderProgress {
+  phase: RenderPhase;
+  /** Frames drawn so far and in total; both zero until rendering starts. */
+  frame: number;
+  totalFrames: number;
+  /** 0-100 across the whole job. */
+  percent: number;
+  /** Estimated seconds left, or null until there is enough to go on. */
+  etaSeconds: number | null;
 }
 
+/** Cancellation and progress reporting for createVideo and renderPlan. */
+export interface RenderJob {
+  signal?: AbortSignal;
+  onProgress?: (progress: RenderProgress) => void;
+}
+
+interface MusicTrack {
+  info: MusicTrackInfo;
+  url: string;
+  buffer: AudioBuffer;
+}
+
+const TITLE_CARD_SECONDS = 3;
+const END_CARD_SECONDS = 4;
+const FADE_OUT_SECONDS = 1.5;
+// Music fade-in when there is no title card to fade in under
+const MUSIC_FADE_IN_SECONDS = 1;
+// Shortest a beat-snapped photo may become, relative to its planned duration
+const MIN_SNAPPED_DURATION_RATIO = 0.6;
+
+export interface VideoGeneratorOptions {
+  render?: RenderSettingsInput;
+  motion?: Partial<MotionOptions>;
+  /** Manifest id of a user-chosen track; otherwise the best mood match is used. */
+  musicTrackId?: string;
+  /** Photo moods (e.g. from /api/vision) that feed music selection. */
+  photoMoods?: string[];
+  /** Per-photo captions, indexed like the photos passed to planVideo. */
+  captions?: (string | undefined)[];
+  /** Per-photo lower thirds, indexed like the photos passed to planVideo. */
+  lowerThirds?: (PlanLowerThird | undefined)[];
+  /** Per-photo subject boxes from /api/vision, indexed like the photos. */
+  subjects?: (SubjectBox[] | undefined)[];
+  /** Per-photo focus points set by the user, indexed like the photos. */
+  focusPoints?: (FocusPoint | undefined)[];
+  /** Per-clip trim windows chosen by the user, indexed like the photos; otherwise the automatic one. */
+  videoTrims?: (VideoTrim | undefined)[];
+  /** Per-clip handling of a video's own sound, indexed like the photos. */
+  clipAudio?: (ClipAudioMode | undefined)[];
+  /** Narrative template for planVideo: phases, pacing, transitions and text styling. */
+  template?: TemplateName;
+  /** Total length planVideo solves for; otherwise it follows from the photos and the template. */
+  targetDuration?: TargetDuration;
+  /**
+   * Suggestions from /api/plan, with the photos passed in its shot order
+   * and each shot's photoIndex its position among them. Each shot's weight,
+   * motion and focal region shape its clip, its transitions stand in for
+   * the rule-based ones between consecutive shots, and its title and music
+   * mood are used where the options above leave a choice.
+   */
+  story?: StoryPlan;
+  /** Draw onto this canvas instead of an offscreen one, e.g. for a live preview. */
+  canvas?: HTMLCanvasElement;
+}
+
+// Ranked tracks to try decoding before giving up on music
+const MAX_MUSIC_ATTEMPTS = 3;
+const PROGRESS_EVERY_FRAMES = 6;
+// Share of the job's percentage each phase covers
+const PHASE_PERCENT: Record<RenderPhase, [number, number]> = {
+  planning: [0, 10],
+  preparing: [10, 15],
+  rendering: [15, 95],
+  finalizing: [95, 100]
+};
+
 export default class VideoGenerator {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
-  private width = 1920;
-  private height = 1080;
-  private fps = 30;
-  private defaultMusicCandidates = [
-    '/assets/music_pack/ACOUSTIC-GUIT-AR-EMOTIONAL-NOSTALGIA.mp3',
-    '/assets/music_pack/golden-waves.mp3',
-    '/assets/music_pack/Affection_full-length.mp3',
-    '/assets/music_pack/Inspirations-Cinematic-Felt-Piano.mp3',
-    '/assets/music_pack/Nature.mp3',
-    '/assets/music_pack/PROPOSA.mp3'
-  ];
+  private settings: RenderSettings;
+  private width: number;
+  private height: number;
+  private fps: number;
+  private videoBitsPerSecond: number;
+  private exporter: WebCodecsExporter | null = null;
+  private frameIndex = 0;
+  private renderStartedAt = 0;
+  private renderer: TimelineRenderer | null = null;
+  private motionOptions: MotionOptions;
+  private musicTrackId?: string;
+  private photoMoods?: string[];
+  private captions?: (string | undefined)[];
+  private lowerThirds?: (PlanLowerThird | undefined)[];
+  private subjects?: (SubjectBox[] | undefined)[];
+  private focusPoints?: (FocusPoint | undefined)[];
+  private videoTrims?: (VideoTrim | undefined)[];
+  private clipAudio?: (ClipAudioMode | undefined)[];
+  private templateName: TemplateName;
+  private template: NarrativeTemplate;
+  private targetDuration?: TargetDuration;
+  private story?: StoryPlan;
+  private imageCache = new WeakMap<File, Promise<HTMLImageElement>>();
+  // A Map rather than a WeakMap so dispose can release every clip
+  private videoCache = new Map<File, Promise<HTMLVideoElement>>();
+  private audioCache = new Map<string, Promise<AudioBuffer>>();
 
   private secondsFromFrames(frames: number) {
     return Math.max(0, frames / this.fps);
   }
 
-  private isNearStatic(effect: ImageData['effect']) {
+  private isNearStatic(effect: MotionEffect) {
     return effect === 'static';
   }
 
-  private getZoomDir(effect: ImageData['effect']) {
+  private getZoomDir(effect: MotionEffect) {
     if (effect === 'zoom-in') return 'in';
     if (effect === 'zoom-out') return 'out';
     return 'static';
@@ -35,22 +166,20 @@ export default class VideoGenerator {
 
   private getTransitionPreset(params: {
     beatPosition: number;
-    fromEffect: ImageData['effect'];
-    toEffect: ImageData['effect'];
-  }): { type: 'hard_cut' | 'match_dissolve' | 'breath_hold' | 'dip_to_black_micro'; durationSeconds: number; holdSeconds: number } {
+    fromEffect: MotionEffect;
+    toEffect: MotionEffect;
+    /** Phase from the music's energy curve; derived from position when absent. */
+    phase?: NarrativePhase;
+  }): PlanTransition {
     const { beatPosition, fromEffect, toEffect } = params;
-
-    const phase =
-      beatPosition < 0.15 ? 'intro' :
-      beatPosition < 0.70 ? 'development' :
-      beatPosition < 0.90 ? 'climax' :
-      'resolve';
+    const phase = params.phase ?? this.positionPhase(beatPosition);
 
     const fromZoom = this.getZoomDir(fromEffect);
     const toZoom = this.getZoomDir(toEffect);
     const zoomFlip = fromZoom !== 'static' && toZoom !== 'static' && fromZoom !== toZoom;
     const zoomAlign = !zoomFlip && fromZoom !== 'static' && toZoom !== 'static' && fromZoom === toZoom;
     const bothStatic = this.isNearStatic(fromEffect) && this.isNearStatic(toEffect);
+    const samePan = fromEffect === toEffect && (fromEffect === 'pan-left' || fromEffect === 'pan-right');
 
     if (zoomFlip) {
       return { type: 'hard_cut', durationSeconds: 0, holdSeconds: 0 };
@@ -63,10 +192,13 @@ export default class VideoGenerator {
 
     if (phase === 'development') {
       if (zoomAlign) return { type: 'match_dissolve', durationSeconds: this.secondsFromFrames(5), holdSeconds: 0 };
+      // Carry a shared pan direction through the cut
+      if (samePan) return this.registeredTransition(fromEffect === 'pan-left' ? 'whip_pan_left' : 'whip_pan_right', phase);
       return { type: 'hard_cut', durationSeconds: 0, holdSeconds: 0 };
     }
 
     if (phase === 'climax') {
+      if (zoomAlign && fromZoom === 'in') return this.registeredTransition('cross_zoom', phase);
       if (bothStatic) return { type: 'breath_hold', durationSeconds: 0, holdSeconds: this.secondsFromFrames(10) };
       return { type: 'breath_hold', durationSeconds: 0, holdSeconds: this.secondsFromFrames(8) };
     }
@@ -79,41 +211,94 @@ export default class VideoGenerator {
       return { type: 'breath_hold', durationSeconds: 0, holdSeconds: this.secondsFromFrames(12) };
     }
 
+    if (zoomAlign) {
+      return this.registeredTransition('light_leak', phase);
+    }
+
     return { type: 'hard_cut', durationSeconds: 0, holdSeconds: 0 };
   }
 
+  private positionPhase(beatPosition: number): NarrativePhase {
+    return beatPosition < 0.15 ? 'intro' :
+      beatPosition < 0.70 ? 'development' :
+      beatPosition < 0.90 ? 'climax' :
+      'resolve';
+  }
+
   /**
-   * Try to load a background music track from known asset paths.
-   * Returns an HTMLAudioElement ready to play, or null if none load.
+   * Apply the template's transition mix to a rule-based pick. Plain cuts and
+   * avoided types become the template's cut, except for an evenly spread
+   * share that become its accents in rotation; `state.cuts` counts them
+   * across the video. Substitutes not allowed in `phase` fall back to a
+   * hard cut. Lengths are then scaled by the template's pace.
    */
-  private async loadAudioTrack(): Promise<HTMLAudioElement | null> {
-    for (const candidate of this.defaultMusicCandidates) {
-      try {
-        const audio = new Audio(candidate);
-        audio.loop = true;
-        audio.crossOrigin = 'anonymous';
-        await audio.play().catch(() => audio.play()); // Retry once
-
-        // Wait for canplaythrough before returning
-        await new Promise<void>((resolve, reject) => {
-          const onReady = () => {
-            audio.removeEventListener('canplaythrough', onReady);
-            audio.removeEventListener('error', onError);
-            resolve();
-          };
-          const onError = () => {
-            audio.removeEventListener('canplaythrough', onReady);
-            audio.removeEventListener('error', onError);
-            reject(new Error('Audio load error'));
-          };
-          audio.addEventListener('canplaythrough', onReady, { once: true });
-          audio.addEventListener('error', onError, { once: true });
-        });
+  private mixTransition(preset: PlanTransition, phase: NarrativePhase, state: { cuts: number }): PlanTransition {
+    const mix = this.template.transitions;
+    let transition = preset;
+
+    if (preset.type === 'hard_cut' || mix.avoid.includes(preset.type)) {
+      const n = state.cuts++;
+      const accentIndex = Math.floor(n * mix.accentShare);
+      const accent = mix.accents.length > 0 && Math.floor((n + 1) * mix.accentShare) > accentIndex
+        ? this.registeredTransition(mix.accents[accentIndex % mix.accents.length], phase)
+        : null;
+      transition = accent && accent.type !== 'hard_cut' ? accent : this.registeredTransition(mix.cut, phase);
+      if (mix.avoid.includes(transition.type)) {
+        transition = { type: 'hard_cut', durationSeconds: 0, holdSeconds: 0 };
+      }
+    }
+
+    return {
+      ...transition,
+      durationSeconds: transition.durationSeconds * mix.pace,
+      holdSeconds: transition.holdSeconds * mix.pace
+    };
+  }
+
+  /** A story plan's transition; a breath hold gets the hold the rule-based planner would give it. */
+  private storyTransition(type: string, phase: NarrativePhase): PlanTransition {
+    if (type === 'breath_hold' && isAllowedIn(type, phase)) {
+      return { type, durationSeconds: 0, holdSeconds: this.secondsFromFrames(10) };
+    }
+    return this.registeredTransition(type, phase);
+  }
+
+  /** A registry transition at its default duration, or a hard cut where it is not allowed in `phase`. */
+  private registeredTransition(type: string, phase: NarrativePhase): PlanTransition {
+    const definition = getTransition(type);
+    if (!definition || !isAllowedIn(type, phase)) {
+      return { type: 'hard_cut', durationSeconds: 0, holdSeconds: 0 };
+    }
+    return { type, durationSeconds: definition.defaultDurationSeconds, holdSeconds: 0 };
+  }
 
-        console.log('[VIDEO] Using music track:', candidate);
-        return audio;
+  /**
+   * Decode the user's chosen track, or the best mood match for the memory.
+   * The raw samples drive beat analysis and the encoder path's audio.
+   */
+  private async loadMusic(memoryText?: string): Promise<MusicTrack | null> {
+    // The plan's music mood reads as a mood word in the context
+    const context = [memoryText, this.story?.musicMood].filter(Boolean).join(' ') || undefined;
+    let ranked: RankedTrack[];
+    try {
+      ranked = rankTracks(await loadAvailableTracks(), { context, photoMoods: this.photoMoods });
+    } catch (err) {
+      console.warn('[VIDEO] Music manifest unavailable; proceeding without audio.', err);
+      return null;
+    }
+
+    const chosen = ranked.findIndex(r => r.track.id === this.musicTrackId);
+    if (chosen > 0) {
+      ranked.unshift(...ranked.splice(chosen, 1));
+    }
+
+    for (const candidate of ranked.slice(0, MAX_MUSIC_ATTEMPTS)) {
+      try {
+        const buffer = await this.decodeMusic(candidate.url);
+        console.log('[VIDEO] Using music track:', candidate.track.id, candidate.matchedMoods);
+        return { info: candidate.track, url: candidate.url, buffer };
       } catch (err) {
-        console.warn('[VIDEO] Music track failed, trying next:', candidate, err);
+        console.warn('[VIDEO] Music track failed, trying next:', candidate.url, err);
       }
     }
 
@@ -121,62 +306,285 @@ export default class VideoGenerator {
     return null;
   }
 
-  constructor() {
-    this.canvas = document.createElement('canvas');
+  /** Decode a track once; planning and rendering the same plan share it. */
+  private decodeMusic(url: string): Promise<AudioBuffer> {
+    let decoded = this.audioCache.get(url);
+    if (!decoded) {
+      decoded = decodeAudioTrack(url);
+      decoded.catch(() => this.audioCache.delete(url));
+      this.audioCache.set(url, decoded);
+    }
+    return decoded;
+  }
+
+  constructor(options: VideoGeneratorOptions = {}) {
+    this.motionOptions = { ...DEFAULT_MOTION, ...options.motion };
+    this.musicTrackId = options.musicTrackId;
+    this.captions = options.captions;
+    this.lowerThirds = options.lowerThirds;
+    this.focusPoints = options.focusPoints;
+    this.videoTrims = options.videoTrims;
+    this.clipAudio = options.clipAudio;
+    this.templateName = options.template ?? DEFAULT_TEMPLATE;
+    this.template = getTemplate(this.templateName);
+    this.targetDuration = options.targetDuration;
+    this.story = options.story;
+    // Vision's findings from the plan, unless given directly
+    this.photoMoods = options.photoMoods ?? options.story?.shots.map(shot => shot.mood).filter(mood => mood !== 'unknown');
+    this.subjects = options.subjects
+      ?? options.story?.shots.map(shot => (shot.focalRegion ? [{ box: shot.focalRegion }] : undefined));
+    this.settings = resolveRenderSettings(options.render);
+    this.width = this.settings.width;
+    this.height = this.settings.height;
+    this.fps = this.settings.fps;
+    this.videoBitsPerSecond = this.settings.videoBitsPerSecond;
+    this.canvas = options.canvas ?? document.createElement('canvas');
     this.canvas.width = this.width;
     this.canvas.height = this.height;
     this.ctx = this.canvas.getContext('2d')!;
   }
 
-  private async renderHold(duration: number): Promise<void> {
-    const frames = Math.floor(duration * this.fps);
-    for (let frame = 0; frame < frames; frame++) {
-      await this.waitFrame();
-    }
+  private applySettings(settings: RenderSettings): void {
+    this.settings = settings;
+    this.width = settings.width;
+    this.height = settings.height;
+    this.fps = settings.fps;
+    this.videoBitsPerSecond = settings.videoBitsPerSecond;
+    this.canvas.width = this.width;
+    this.canvas.height = this.height;
   }
 
-  private async renderDipToBlack(from: ImageData, to: ImageData, duration: number): Promise<void> {
-    const frames = Math.max(2, Math.floor(duration * this.fps));
-    const half = Math.floor(frames / 2);
+  /**
+   * Plan and render `photos` in one job. Aborting `signal` stops the job at
+   * the next phase or frame and rejects with the signal's reason.
+   */
+  async createVideo(photos: File[], memoryText?: string, job: RenderJob = {}): Promise<Blob> {
+    job.signal?.throwIfAborted();
+    this.reportProgress(job, 'planning');
+    const plan = await this.planVideo(photos, memoryText);
+    return this.renderPlan(plan, photos, job);
+  }
 
-    for (let frame = 0; frame < frames; frame++) {
-      const t = frame / (frames - 1);
-      this.easeInOutCubic(t);
+  /**
+   * Score `photos` for sharpness, exposure and near-duplicates and pick the
+   * ones the narrative will use. The scores explain every exclusion, so
+   * the UI can show why a photo was left out.
+   */
+  async analyzePhotos(photos: File[]): Promise<PhotoSelection> {
+    const images = await this.loadImages(photos);
+    return selectPhotos(scorePhotos(images), templateCapacity(this.template));
+  }
 
-      this.ctx.fillStyle = '#000000';
-      this.ctx.fillRect(0, 0, this.width, this.height);
+  /**
+   * Build the default plan for `photos`: the best photos in a narrative arc,
+   * music chosen for the memory and cuts snapped to its beats. With a
+   * target duration the photo count and clip and transition lengths are
+   * solved to land on it. Nothing is drawn; the result can be saved, edited
+   * or handed to renderPlan. Pass the result of analyzePhotos as
+   * `selection` to avoid scoring twice. A story plan's title, when it has
+   * one, replaces `memoryText` on the title and end cards.
+   */
+  async planVideo(photos: File[], memoryText?: string, selection?: PhotoSelection): Promise<RenderPlan> {
+    const images = await this.loadImages(photos);
+    const analysed = selection ?? await this.analyzePhotos(photos);
+    const ingested = await ingestPhotos(photos);
+    const music = await this.loadMusic(memoryText);
+    const titleText = this.story?.title || memoryText;
+
+    const leadInSeconds = titleText ? TITLE_CARD_SECONDS : 0;
+    const tailSeconds = (titleText ? END_CARD_SECONDS : 0) + FADE_OUT_SECONDS;
+    const startOffset = music?.info.recommendedStartSec ?? 0;
+    const targetSeconds = this.resolveTarget(music, startOffset);
+    const clipSeconds = targetSeconds === null ? null : targetSeconds - leadInSeconds - tailSeconds;
+
+    const selected = clipSeconds === null ? analysed.selected : this.selectForLength(analysed, clipSeconds);
+    const clips = this.buildNarrative(images, selected, ingested.map(photo => photo.video));
+    const bounds = this.clipBounds(clips);
+
+    let analysis: BeatAnalysis | null = null;
+    if (music) {
+      try {
+        analysis = offsetAnalysis(await analyzeBeats(music.buffer), startOffset);
+        console.log('[VIDEO] Music tempo:', analysis.bpm.toFixed(1), 'BPM');
+      } catch (err) {
+        console.warn('[VIDEO] Beat analysis failed; using planned durations:', err);
+      }
+    }
 
-      if (frame < half) {
-        const local = half > 1 ? frame / (half - 1) : 1;
-        const a = 1 - this.easeInOutCubic(local);
-        this.ctx.save();
-        this.ctx.globalAlpha = a;
-        this.drawImageWithEffect(from.img, from.effect, 1);
-        this.ctx.restore();
-      } else {
-        const local = (frames - half) > 1 ? (frame - half) / (frames - half - 1) : 1;
-        const a = this.easeInOutCubic(local);
-        this.ctx.save();
-        this.ctx.globalAlpha = a;
-        this.drawImageWithEffect(to.img, to.effect, 0);
-        this.ctx.restore();
+    if (clipSeconds !== null) {
+      // Provisional picks, so transition lengths count when spreading the target over the clips
+      this.scheduleTransitions(clips, null, leadInSeconds, tailSeconds, bounds);
+      this.fitToLength(clips, bounds, clipSeconds, false);
+    }
+    this.scheduleTransitions(clips, analysis, leadInSeconds, tailSeconds, bounds);
+    if (clipSeconds !== null) {
+      const residual = this.fitToLength(clips, bounds, clipSeconds, true);
+      if (Math.abs(residual) * this.fps >= 0.5) {
+        console.warn('[VIDEO] Target length out of reach by', residual.toFixed(2), 's with', clips.length, 'photos');
       }
+    }
+
+    const audio: PlanAudioCue | null = music && {
+      trackId: music.info.id,
+      url: music.url,
+      startOffsetSeconds: startOffset,
+      fadeInSeconds: leadInSeconds || MUSIC_FADE_IN_SECONDS,
+      fadeOutSeconds: FADE_OUT_SECONDS,
+      credit: trackCredit(music.info),
+      ...(analysis ? { bpm: analysis.bpm } : {})
+    };
+
+    // Capture time from EXIF, or the file date when a photo has none
+    const endCard: PlanEndCard | null = titleText
+      ? {
+          title: titleText,
+          dateRange: formatDateRange(ingested.map(photo => new Date(photo.metadata.capturedAt ?? photo.original.lastModified))),
+          credits: audio?.credit ? [audio.credit] : [],
+          durationSeconds: END_CARD_SECONDS,
+          reveal: this.template.endCardReveal
+        }
+      : null;
+
+    return {
+      version: RENDER_PLAN_VERSION,
+      output: this.settings,
+      title: titleText ? { text: titleText, durationSeconds: TITLE_CARD_SECONDS, reveal: this.template.titleReveal } : null,
+      clips,
+      audio,
+      endCard,
+      fadeOutSeconds: FADE_OUT_SECONDS,
+      template: this.templateName,
+      typography: this.template.typography
+    };
+  }
 
-      await this.waitFrame();
+  /**
+   * Render a plan from any producer. `photos` are the files its clips'
+   * photoIndex values refer to. The plan's output settings replace the ones
+   * this generator was constructed with. Frames are drawn and encoded in the
+   * render worker where the browser allows it, otherwise on this thread.
+   * The video clips it loads are released however the render ends.
+   */
+  async renderPlan(plan: RenderPlan, photos: File[], job: RenderJob = {}): Promise<Blob> {
+    try {
+      return await this.renderPlanToBlob(plan, photos, job);
+    } finally {
+      await this.dispose();
     }
   }
 
-  async createVideo(photos: File[], memoryText?: string): Promise<Blob> {
+  /**
+   * Release the video clips loaded for drawing, each <video> element with
+   * the object URL it keeps. Call when done with the generator, e.g. when a
+   * preview closes; frames drawn afterwards need loadTimeline again.
+   */
+  async dispose(): Promise<void> {
+    const loaded = [...this.videoCache.values()];
+    this.videoCache.clear();
+    for (const result of await Promise.allSettled(loaded)) {
+      if (result.status === 'fulfilled') releaseVideo(result.value);
+    }
+  }
+
+  private async renderPlanToBlob(plan: RenderPlan, photos: File[], job: RenderJob): Promise<Blob> {
+    job.signal?.throwIfAborted();
+    this.reportProgress(job, 'preparing');
+    this.assertValid(plan, photos);
+    this.applySettings(plan.output);
+    const bed = await this.mixAudio(plan, photos);
+    job.signal?.throwIfAborted();
+
+    // Video clips are seeked through <video> elements, which workers lack
+    const hasVideo = plan.clips.some(clip => clip.video);
+    if (hasVideo) {
+      console.log('[VIDEO] Plan has video clips; rendering on the main thread.');
+    }
+    if (canRenderInWorker() && !hasVideo) {
+      const blob = await this.renderInWorker(plan, photos, bed, job);
+      if (blob) return blob;
+    }
+
+    await this.loadTimeline(plan, photos);
+    const renderer = this.renderer!;
+    job.signal?.throwIfAborted();
+
+    if (WebCodecsExporter.isSupported()) {
+      const exporter = await WebCodecsExporter.create({
+        canvas: this.canvas,
+        width: this.width,
+        height: this.height,
+        fps: this.fps,
+        videoBitsPerSecond: this.videoBitsPerSecond,
+        audio: bed,
+        container: this.settings.container
+      });
+      if (exporter) {
+        return this.encodeVideo(exporter, renderer, job);
+      }
+      console.warn('[VIDEO] No supported WebCodecs configuration; falling back to MediaRecorder.');
+    }
+
+    return this.recordVideo(renderer, bed, job);
+  }
+
+  /**
+   * Draw and encode in the render worker, keeping the page responsive.
+   * Resolves with null when the worker cannot encode in this browser.
+   */
+  private async renderInWorker(plan: RenderPlan, photos: File[], bed: AudioBuffer | null, job: RenderJob): Promise<Blob | null> {
     const images = await this.loadImages(photos);
-    const narrative = this.buildNarrative(images);
-    const audio = await this.loadAudioTrack();
+    const used = new Set(plan.clips.map(clip => clip.photoIndex));
+    const bitmaps = await Promise.all(images.map((img, i) => (used.has(i) ? createImageBitmap(img) : null)));
+
+    this.renderStartedAt = performance.now();
+    const blob = await renderInWorker(plan, bitmaps, bed, {
+      signal: job.signal,
+      onProgress: (frame, totalFrames) => {
+        this.reportProgress(job, frame < totalFrames ? 'rendering' : 'finalizing', frame, totalFrames);
+      }
+    });
+    if (!blob) {
+      console.warn('[VIDEO] Render worker unavailable; rendering on the main thread.');
+    }
+    return blob;
+  }
+
+  /**
+   * Faster-than-realtime export: every frame is encoded with a timestamp
+   * derived from its index, so the output is frame-accurate regardless of
+   * how long each frame took to draw.
+   */
+  private async encodeVideo(exporter: WebCodecsExporter, renderer: TimelineRenderer, job: RenderJob): Promise<Blob> {
+    this.exporter = exporter;
+    try {
+      await this.renderFrames(renderer, job, job.signal);
+      this.reportProgress(job, 'finalizing', renderer.totalFrames, renderer.totalFrames);
+      return await exporter.finish();
+    } catch (err) {
+      exporter.abort();
+      throw err;
+    } finally {
+      this.exporter = null;
+    }
+  }
 
-    return new Promise((resolve, reject) => {
+  /**
+   * Realtime fallback for browsers without WebCodecs: record the canvas
+   * stream while frames are paced with timers. The recorder, its streams and
+   * the music playback are released however the render ends.
+   */
+  private async recordVideo(renderer: TimelineRenderer, bed: AudioBuffer | null, job: RenderJob): Promise<Blob> {
+    const playback = bed ? createPlaybackStream(bed) : null;
+    // Stops the frame loop when the recorder fails as well as on cancel
+    const stop = new AbortController();
+    const forwardAbort = () => stop.abort(job.signal?.reason);
+    job.signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    return new Promise<Blob>((resolve, reject) => {
       const chunks: Blob[] = [];
       const videoStream = this.canvas.captureStream(this.fps);
-      const audioStream = audio && typeof (audio as any).captureStream === 'function'
-        ? (audio as any).captureStream()
-        : null;
+      const audioStream = playback?.stream ?? null;
+      let failure: unknown = null;
 
       const mixedStream = audioStream
         ? new MediaStream([
@@ -185,9 +593,16 @@ export default class VideoGenerator {
           ])
         : videoStream;
 
+      const release = () => {
+        playback?.stop();
+        mixedStream.getTracks().forEach(track => track.stop());
+        job.signal?.removeEventListener('abort', forwardAbort);
+      };
+
+      const mimeType = this.recorderMimeType();
       const mediaRecorder = new MediaRecorder(mixedStream, {
-        mimeType: 'video/webm;codecs=vp9',
-        videoBitsPerSecond: 5000000
+        mimeType,
+        videoBitsPerSecond: this.videoBitsPerSecond
       });
 
       mediaRecorder.ondataavailable = (e) => {
@@ -197,259 +612,455 @@ export default class VideoGenerator {
       };
 
       mediaRecorder.onstop = () => {
-        if (audio) {
-          audio.pause();
-          audio.currentTime = 0;
+        release();
+        if (failure) {
+          reject(failure);
+          return;
         }
-        const blob = new Blob(chunks, { type: 'video/webm' });
+        const blob = new Blob(chunks, { type: mimeType?.split(';')[0] ?? 'video/webm' });
         resolve(blob);
       };
 
       mediaRecorder.onerror = (e) => {
-        reject(e);
+        failure = e;
+        stop.abort(e);
       };
 
       mediaRecorder.start();
-      this.renderVideo(narrative, memoryText).then(() => {
-        mediaRecorder.stop();
+      playback?.start();
+      this.renderFrames(renderer, job, stop.signal).then(
+        () => {
+          this.reportProgress(job, 'finalizing', renderer.totalFrames, renderer.totalFrames);
+        },
+        (err) => {
+          failure ??= err;
+        }
+      ).finally(() => {
+        if (mediaRecorder.state !== 'inactive') {
+          mediaRecorder.stop();
+        } else {
+          release();
+          reject(failure ?? new Error('Recorder stopped before the render finished'));
+        }
       });
     });
   }
 
+  /**
+   * First recorder format the browser supports that honours the requested
+   * container; Safari can record MP4 directly.
+   */
+  private recorderMimeType(): string | undefined {
+    const candidates = [
+      'video/mp4;codecs=avc1.640028,mp4a.40.2',
+      'video/mp4',
+      'video/webm;codecs=vp9,opus',
+      'video/webm;codecs=vp9',
+      'video/webm'
+    ].filter(type => this.settings.container === 'auto' || type.startsWith(`video/${this.settings.container}`));
+    return candidates.find(type => MediaRecorder.isTypeSupported(type));
+  }
+
+  /**
+   * Decode photos upright, converting HEIC first (see photoIngest). Video
+   * clips are represented by their poster frame.
+   */
   private async loadImages(files: File[]): Promise<HTMLImageElement[]> {
     const loadPromises = files.map(file => {
-      return new Promise<HTMLImageElement>((resolve, reject) => {
-        const img = new Image();
-        img.onload = () => resolve(img);
-        img.onerror = reject;
-        img.src = URL.createObjectURL(file);
-      });
+      let loaded = this.imageCache.get(file);
+      if (!loaded) {
+        loaded = ingestPhoto(file).then(photo => new Promise<HTMLImageElement>((resolve, reject) => {
+          // A decoded image stays drawable after its URL is revoked
+          const url = URL.createObjectURL(photo.video?.poster ?? photo.file);
+          const img = new Image();
+          img.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(img);
+          };
+          img.onerror = (err) => {
+            URL.revokeObjectURL(url);
+            reject(err);
+          };
+          img.src = url;
+        }));
+        this.imageCache.set(file, loaded);
+      }
+      return loaded;
     });
 
     return Promise.all(loadPromises);
   }
 
-  private buildNarrative(images: HTMLImageElement[]): ImageData[] {
-    const narrative: ImageData[] = [];
-    // Force cinematic calm: only static frames (no random movement)
-    const effects: ImageData['effect'][] = ['static'];
-
-    const structure = [
-      { phase: 'arrival', count: 3, avgDuration: 4 },
-      { phase: 'recognition', count: 5, avgDuration: 4 },
-      { phase: 'intimacy', count: 7, avgDuration: 3.5 },
-      { phase: 'pause', count: 4, avgDuration: 5 },
-      { phase: 'trace', count: 3, avgDuration: 5 }
-    ];
-
-    let imageIndex = 0;
-    const totalImages = Math.min(images.length, 22);
-    const selectedImages = this.selectImages(images, totalImages);
-
-    for (const section of structure) {
-      for (let i = 0; i < section.count && imageIndex < selectedImages.length; i++) {
-        const effect = 'static';
+  /**
+   * What each file draws from: its decoded photo, or for a video clip a
+   * <video> element kept loaded for seeking.
+   */
+  private async loadMedia(files: File[]): Promise<DrawableMedia[]> {
+    const ingested = await ingestPhotos(files);
+    const images = await this.loadImages(files);
+    return Promise.all(files.map((file, i) => {
+      if (!ingested[i].video) return images[i];
+      let loaded = this.videoCache.get(file);
+      if (!loaded) {
+        loaded = loadVideo(ingested[i].file);
+        loaded.catch(() => this.videoCache.delete(file));
+        this.videoCache.set(file, loaded);
+      }
+      return loaded;
+    }));
+  }
 
-        const duration = section.phase === 'pause' || section.phase === 'trace'
-          ? section.avgDuration + Math.random() * 2
-          : section.avgDuration + (Math.random() - 0.5);
+  /**
+   * The built-in plan producer: the template's arc over the selected photos
+   * (one per slot) with motion chosen per phase. Durations are provisional until
+   * scheduleTransitions fits them to the music. Video clips (those with
+   * `videos` details) hold still and run for their trim window. A story
+   * plan's shots choose the motion and scale the duration, within the
+   * phase's limits.
+   */
+  private buildNarrative(images: HTMLImageElement[], selected: number[], videos: (VideoDetails | undefined)[]): PlanClip[] {
+    const narrative: PlanClip[] = [];
+    let selectionIndex = 0;
+
+    for (const section of this.template.phases) {
+      for (let i = 0; i < section.count && selectionIndex < selected.length; i++) {
+        const photoIndex = selected[selectionIndex];
+        const img = images[photoIndex];
+        const video = videos[photoIndex];
+        const shot: StoryShot | undefined = this.story?.shots[photoIndex];
+        // The footage supplies the movement, so clips are framed without Ken Burns
+        const effect = video ? 'static' : shot?.effect ?? section.effects[i % section.effects.length];
+        const trim = video && clampTrim(this.videoTrims?.[photoIndex] ?? video.trim, video.durationSeconds);
+
+        const [low, high] = section.jitter;
+        const [min, max] = section.limits;
+        const duration = trim
+          ? trim.endSeconds - trim.startSeconds
+          : Math.min(max, Math.max(min, (section.avgDuration + low + Math.random() * (high - low)) * (shot?.durationWeight ?? 1)));
+
+        // A user's focus point still decides where the crop centres, even
+        // when a detected region is what must stay in frame
+        const manual = this.focusPoints?.[photoIndex];
+        const focalRegion = resolveFocalRegion({ subjects: this.subjects?.[photoIndex], image: img, manual });
+        const motion = planMotion(
+          img.naturalWidth,
+          img.naturalHeight,
+          this.width / this.height,
+          effect,
+          this.motionOptions,
+          manual ?? (focalRegion ? regionCenter(focalRegion) : undefined),
+          safeAreaCenter(this.settings),
+          focalRegion ? regionToPixels(focalRegion, img.naturalWidth, img.naturalHeight) : undefined
+        );
 
         narrative.push({
-          img: selectedImages[imageIndex],
-          duration,
-          effect
+          photoIndex,
+          durationSeconds: duration,
+          effect,
+          motion: toPlanMotion(motion, img.naturalWidth, img.naturalHeight),
+          ...(focalRegion ? { focalRegion } : {}),
+          phase: section.phase,
+          ...(this.captions?.[photoIndex] ? { caption: this.captions[photoIndex] } : {}),
+          ...(this.lowerThirds?.[photoIndex] ? { lowerThird: this.lowerThirds[photoIndex] } : {}),
+          ...(trim
+            ? {
+                video: {
+                  trimStartSeconds: trim.startSeconds,
+                  trimEndSeconds: trim.endSeconds,
+                  // Live Photo sound is mostly shutter noise and handling
+                  audio: this.clipAudio?.[photoIndex] ?? (video.livePhoto ? 'mute' : 'duck')
+                }
+              }
+            : {})
         });
 
-        imageIndex++;
+        selectionIndex++;
       }
     }
 
     return narrative;
   }
 
-  private selectImages(images: HTMLImageElement[], count: number): HTMLImageElement[] {
-    if (images.length <= count) return images;
-
-    const selected: HTMLImageElement[] = [];
-    const step = images.length / count;
-
-    for (let i = 0; i < count; i++) {
-      const index = Math.floor(i * step);
-      selected.push(images[index]);
-    }
-
-    return selected;
-  }
-
-  private async renderVideo(narrative: ImageData[], memoryText?: string): Promise<void> {
-    if (memoryText) {
-      await this.renderTitleCard(memoryText, 3);
-    }
+  /**
+   * Pick the transition after each clip, in the template's mix. With a
+   * beat analysis, phases follow the track's energy curve and every cut
+   * (the point where the transition starts) is moved onto the nearest beat,
+   * or bar in the intro and resolve, by stretching or shortening the clip
+   * before it, within the clip's `bounds`.
+   */
+  private scheduleTransitions(
+    narrative: PlanClip[],
+    analysis: BeatAnalysis | null,
+    leadInSeconds: number,
+    tailSeconds: number,
+    bounds: DurationBounds[]
+  ): void {
+    const totalSeconds = leadInSeconds + narrative.reduce((sum, clip) => sum + clip.durationSeconds, 0) + tailSeconds;
+    let cursor = leadInSeconds;
+    const mixState = { cuts: 0 };
 
     for (let i = 0; i < narrative.length; i++) {
       const current = narrative[i];
       const next = narrative[i + 1];
-
-      await this.renderImage(current);
+      const phase = analysis ? phaseAt(analysis, cursor, totalSeconds) : undefined;
 
       if (next) {
         const beatPosition = narrative.length > 1 ? i / (narrative.length - 1) : 0.5;
-        const preset = this.getTransitionPreset({
-          beatPosition,
-          fromEffect: current.effect,
-          toEffect: next.effect
-        });
-
-        console.log('[TRANSITION]');
-        console.log(`type=${preset.type}`);
-        console.log(`beatPosition=${beatPosition.toFixed(2)}`);
-
-        if (preset.holdSeconds > 0) {
-          await this.renderHold(preset.holdSeconds);
-        }
-
-        if (preset.type === 'hard_cut' || preset.durationSeconds <= 0) {
-          continue;
-        }
+        // The story's pick holds only between shots it placed side by side
+        const suggested = next.photoIndex === current.photoIndex + 1 ? this.story?.transitions[current.photoIndex] : undefined;
+        const preset = suggested
+          ? this.storyTransition(suggested, phase ?? this.positionPhase(beatPosition))
+          : this.getTransitionPreset({ beatPosition, fromEffect: current.effect, toEffect: next.effect, phase });
+        current.transition = this.mixTransition(preset, phase ?? this.positionPhase(beatPosition), mixState);
+      }
 
-        if (preset.type === 'dip_to_black_micro') {
-          await this.renderDipToBlack(current, next, preset.durationSeconds);
-        } else {
-          await this.renderTransition(current, next, preset.durationSeconds);
+      const holdSeconds = current.transition?.holdSeconds ?? 0;
+      if (analysis && phase) {
+        const grid = phase === 'intro' || phase === 'resolve' ? analysis.bars : analysis.beats;
+        const earliest = cursor + Math.max(current.durationSeconds * MIN_SNAPPED_DURATION_RATIO, bounds[i].min) + holdSeconds;
+        const latest = cursor + bounds[i].max + holdSeconds;
+        const cut = this.snapToGrid(grid, cursor + current.durationSeconds + holdSeconds, earliest, latest);
+        if (cut !== null) {
+          current.durationSeconds = cut - cursor - holdSeconds;
         }
       }
-    }
-
-    await this.renderFadeOut(1.5);
-  }
-
-  private async renderTitleCard(text: string, duration: number): Promise<void> {
-    const frames = duration * this.fps;
-
-    for (let frame = 0; frame < frames; frame++) {
-      this.ctx.fillStyle = '#000000';
-      this.ctx.fillRect(0, 0, this.width, this.height);
 
-      const alpha = frame < this.fps ? frame / this.fps : frame > frames - this.fps ? (frames - frame) / this.fps : 1;
-
-      this.ctx.save();
-      this.ctx.globalAlpha = alpha;
-      this.ctx.fillStyle = '#ffffff';
-      this.ctx.font = '48px sans-serif';
-      this.ctx.textAlign = 'center';
-      this.ctx.textBaseline = 'middle';
-      this.ctx.fillText(text, this.width / 2, this.height / 2);
-      this.ctx.restore();
-
-      await this.waitFrame();
+      cursor += current.durationSeconds + holdSeconds + (current.transition?.durationSeconds ?? 0);
     }
   }
 
-  private async renderImage(imageData: ImageData): Promise<void> {
-    const frames = Math.floor(imageData.duration * this.fps);
-    const img = imageData.img;
-
-    for (let frame = 0; frame < frames; frame++) {
-      const progress = frame / frames;
-      this.drawImageWithEffect(img, imageData.effect, progress);
-      await this.waitFrame();
+  /** Target length in seconds, on a frame boundary, or null to leave the length to the photos. */
+  private resolveTarget(music: MusicTrack | null, startOffset: number): number | null {
+    if (this.targetDuration === undefined) return null;
+    if (this.targetDuration !== 'song') return this.targetDuration;
+    if (!music) {
+      console.warn('[VIDEO] No music to match; using the planned length');
+      return null;
     }
+    // Rounded down so the picture never outlasts the track
+    return Math.floor((music.buffer.duration - startOffset) * this.fps) / this.fps;
   }
 
-  private drawImageWithEffect(img: HTMLImageElement, effect: ImageData['effect'], progress: number): void {
-    this.ctx.fillStyle = '#000000';
-    this.ctx.fillRect(0, 0, this.width, this.height);
-
-    const imgRatio = img.width / img.height;
-    const canvasRatio = this.width / this.height;
+  /** Narrow the selection to the photo count whose slots best fill `clipSeconds`. */
+  private selectForLength(selection: PhotoSelection, clipSeconds: number): number[] {
+    const slots = templateSlots(this.template).map(slot => ({
+      min: slot.limits[0],
+      max: slot.limits[1],
+      planned: slot.avgDuration + (slot.jitter[0] + slot.jitter[1]) / 2
+    }));
+    const count = photoCountFor(slots, clipSeconds, selection.selected.length);
+    return count < selection.selected.length ? selectPhotos(selection.scores, count).selected : selection.selected;
+  }
 
-    let drawWidth = this.width;
-    let drawHeight = this.height;
-    let offsetX = 0;
-    let offsetY = 0;
+  /**
+   * Time-on-screen limits for each clip from its template slot. Video
+   * clips never run past their trim window.
+   */
+  private clipBounds(clips: PlanClip[]): DurationBounds[] {
+    const slots = templateSlots(this.template);
+    return clips.map((clip, i) => {
+      const [min, max] = slots[i]?.limits ?? [clip.durationSeconds, clip.durationSeconds];
+      if (!clip.video) return { min, max };
+      const length = clip.video.trimEndSeconds - clip.video.trimStartSeconds;
+      return { min: Math.min(min, length), max: length };
+    });
+  }
 
-    if (imgRatio > canvasRatio) {
-      drawWidth = this.height * imgRatio;
-      offsetX = (this.width - drawWidth) / 2;
-    } else {
-      drawHeight = this.width / imgRatio;
-      offsetY = (this.height - drawHeight) / 2;
+  /**
+   * Fit clip and transition lengths so the clips and their transitions run
+   * for exactly `seconds`. With `lastFirst` the last clip takes up the
+   * difference first, so earlier beat-snapped cuts stay where they are;
+   * what it cannot absorb is shared by every clip within its bounds, then
+   * by the transitions within TRANSITION_SCALE_RANGE. Returns the seconds
+   * still missing (or over) when even that is not enough.
+   */
+  private fitToLength(clips: PlanClip[], bounds: DurationBounds[], seconds: number, lastFirst: boolean): number {
+    const transitionSeconds = (clip: PlanClip) => (clip.transition?.holdSeconds ?? 0) + (clip.transition?.durationSeconds ?? 0);
+    const sumOf = (values: number[]) => values.reduce((a, b) => a + b, 0);
+    const transitions = () => sumOf(clips.map(transitionSeconds));
+
+    if (lastFirst) {
+      const last = clips.length - 1;
+      const others = sumOf(clips.slice(0, last).map(clip => clip.durationSeconds));
+      const fitted = distribute([clips[last].durationSeconds], [bounds[last]], seconds - others - transitions());
+      clips[last].durationSeconds = fitted.values[0];
     }
 
-    this.ctx.save();
+    const durations = distribute(clips.map(clip => clip.durationSeconds), bounds, seconds - transitions());
+    clips.forEach((clip, i) => {
+      clip.durationSeconds = durations.values[i];
+    });
 
-    // Disable movement to eliminate shake/jitter
-    const effectAmount = 0;
+    const [low, high] = TRANSITION_SCALE_RANGE;
+    const lengths = clips.map(transitionSeconds);
+    const fitted = distribute(
+      lengths,
+      lengths.map(length => ({ min: length * low, max: length * high })),
+      seconds - sumOf(durations.values)
+    );
+    clips.forEach((clip, i) => {
+      if (!clip.transition || lengths[i] === 0) return;
+      const scale = fitted.values[i] / lengths[i];
+      clip.transition = {
+        ...clip.transition,
+        durationSeconds: clip.transition.durationSeconds * scale,
+        holdSeconds: clip.transition.holdSeconds * scale
+      };
+    });
+    return fitted.residual;
+  }
 
-    switch (effect) {
-      case 'zoom-in': {
-        const scale = 1 + progress * effectAmount;
-        const centerX = this.width / 2;
-        const centerY = this.height / 2;
-        this.ctx.translate(centerX, centerY);
-        this.ctx.scale(scale, scale);
-        this.ctx.translate(-centerX, -centerY);
-        break;
+  /** Grid time closest to `target` between `earliest` and `latest`. */
+  private snapToGrid(grid: number[], target: number, earliest: number, latest = Infinity): number | null {
+    let best: number | null = null;
+    for (const time of grid) {
+      if (time < earliest) continue;
+      if (time > latest) break;
+      if (best === null || Math.abs(time - target) < Math.abs(best - target)) {
+        best = time;
       }
-      case 'zoom-out': {
-        const scale = 1.1 - progress * effectAmount;
-        const centerX = this.width / 2;
-        const centerY = this.height / 2;
-        this.ctx.translate(centerX, centerY);
-        this.ctx.scale(scale, scale);
-        this.ctx.translate(-centerX, -centerY);
-        break;
-      }
-      case 'pan-left':
-      case 'pan-right':
-        // No pan when effectAmount is 0
-        break;
+      if (time > target) break;
     }
+    return best;
+  }
 
-    this.ctx.drawImage(img, offsetX, offsetY, drawWidth, drawHeight);
-    this.ctx.restore();
+  /**
+   * Validate `plan`, load its photos and fonts and lay it out in frames so
+   * any frame can be drawn on demand. `photos` are the files its clips'
+   * photoIndex values refer to. The plan's output settings replace the ones
+   * this generator was constructed with.
+   */
+  async loadTimeline(plan: RenderPlan, photos: File[]): Promise<TimelineInfo> {
+    this.assertValid(plan, photos);
+    this.applySettings(plan.output);
+    const media = await this.loadMedia(photos);
+    this.renderer = new TimelineRenderer(this.ctx, this.settings);
+    return this.renderer.load(plan, media);
   }
 
-  private async renderTransition(from: ImageData, to: ImageData, duration: number): Promise<void> {
-    const frames = Math.floor(duration * this.fps);
+  private assertValid(plan: RenderPlan, photos: File[]): void {
+    const validation = validateRenderPlan(plan, photos.length);
+    if (!validation.ok) {
+      throw new Error(`Invalid render plan: ${validation.errors.join('; ')}`);
+    }
+  }
 
-    for (let frame = 0; frame < frames; frame++) {
-      const progress = frame / frames;
-      const eased = this.easeInOutCubic(progress);
+  /**
+   * Mix the plan's music into a bed the length of the video, with the sound
+   * of video clips set to duck laid over it. `photos` are the files the
+   * plan refers to; without them only the music is mixed. Null when there
+   * is nothing to hear or the track cannot be decoded.
+   */
+  async mixAudio(plan: RenderPlan, photos?: File[]): Promise<AudioBuffer | null> {
+    const durationSeconds = planDurationSeconds(plan);
+    let bed: AudioBuffer | null = null;
+    if (plan.audio) {
+      try {
+        bed = await mixMusicBed(await this.decodeMusic(plan.audio.url), {
+          durationSeconds,
+          startOffsetSeconds: plan.audio.startOffsetSeconds,
+          fadeInSeconds: plan.audio.fadeInSeconds,
+          fadeOutSeconds: plan.audio.fadeOutSeconds
+        });
+      } catch (err) {
+        console.warn('[VIDEO] Music mix failed; proceeding without audio.', err);
+      }
+    }
 
-      this.ctx.fillStyle = '#000000';
-      this.ctx.fillRect(0, 0, this.width, this.height);
+    const sounds = photos ? await this.clipSounds(plan, photos) : [];
+    if (sounds.length === 0) return bed;
+    try {
+      return await mixClipAudio(bed, sounds, { durationSeconds });
+    } catch (err) {
+      console.warn('[VIDEO] Clip audio mix failed; using music only.', err);
+      return bed;
+    }
+  }
 
-      this.ctx.save();
-      this.ctx.globalAlpha = 1 - eased;
-      this.drawImageWithEffect(from.img, from.effect, 1);
-      this.ctx.restore();
+  /** Decoded sound of every clip that keeps it, placed on the plan's timeline. */
+  private async clipSounds(plan: RenderPlan, photos: File[]): Promise<ClipSound[]> {
+    const starts = clipStartSeconds(plan);
+    const sounds = await Promise.all(plan.clips.map(async (clip, i): Promise<ClipSound | null> => {
+      if (clip.video?.audio !== 'duck') return null;
+      const url = URL.createObjectURL(photos[clip.photoIndex]);
+      try {
+        return {
+          buffer: await decodeAudioTrack(url),
+          startSeconds: starts[i],
+          offsetSeconds: clip.video.trimStartSeconds,
+          durationSeconds: Math.min(clip.durationSeconds, clip.video.trimEndSeconds - clip.video.trimStartSeconds)
+        };
+      } catch (err) {
+        // Silent clips have no audio track to decode
+        console.warn('[VIDEO] Clip has no usable audio:', photos[clip.photoIndex].name, err);
+        return null;
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    }));
+    return sounds.filter((sound): sound is ClipSound => sound !== null);
+  }
 
-      this.ctx.save();
-      this.ctx.globalAlpha = eased;
-      this.drawImageWithEffect(to.img, to.effect, 0);
-      this.ctx.restore();
+  /** Seek any video clips in a frame of the loaded timeline; call before drawFrame. */
+  async prepareFrame(frameIndex: number): Promise<void> {
+    await this.renderer?.prepareFrame(frameIndex);
+  }
 
-      await this.waitFrame();
+  /** Draw one frame of the timeline loaded by loadTimeline onto the canvas. */
+  drawFrame(frameIndex: number): void {
+    if (!this.renderer) {
+      throw new Error('No plan loaded; call loadTimeline first');
     }
+    this.renderer.drawFrame(frameIndex);
   }
 
-  private async renderFadeOut(duration: number): Promise<void> {
-    const frames = Math.floor(duration * this.fps);
-
-    for (let frame = 0; frame < frames; frame++) {
-      this.ctx.fillStyle = '#000000';
-      this.ctx.fillRect(0, 0, this.width, this.height);
-      await this.waitFrame();
+  private async renderFrames(renderer: TimelineRenderer, job: RenderJob, signal?: AbortSignal): Promise<void> {
+    this.frameIndex = 0;
+    this.renderStartedAt = performance.now();
+    for (let frame = 0; frame < renderer.totalFrames; frame++) {
+      signal?.throwIfAborted();
+      await renderer.prepareFrame(frame);
+      renderer.drawFrame(frame);
+      await this.commitFrame();
+      if (frame % PROGRESS_EVERY_FRAMES === 0) {
+        this.reportProgress(job, 'rendering', frame + 1, renderer.totalFrames);
+      }
     }
   }
 
-  private easeInOutCubic(t: number): number {
-    return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+  /**
+   * Tell the job's listener where the render is. Each phase owns a slice of
+   * the percentage; the remaining time is extrapolated from the frame rate
+   * achieved so far and only given once a second of video has been drawn.
+   */
+  private reportProgress(job: RenderJob, phase: RenderPhase, frame = 0, totalFrames = 0): void {
+    if (!job.onProgress) return;
+
+    const [from, to] = PHASE_PERCENT[phase];
+    const fraction = totalFrames > 0 ? frame / totalFrames : 0;
+    let etaSeconds: number | null = null;
+    if (phase === 'rendering' && frame >= this.fps) {
+      const secondsPerFrame = (performance.now() - this.renderStartedAt) / 1000 / frame;
+      etaSeconds = secondsPerFrame * (totalFrames - frame);
+    }
+
+    job.onProgress({
+      phase,
+      frame,
+      totalFrames,
+      percent: from + (to - from) * fraction,
+      etaSeconds
+    });
   }
 
-  private waitFrame(): Promise<void> {
-    return new Promise(resolve => {
+  private async commitFrame(): Promise<void> {
+    if (this.exporter) {
+      await this.exporter.addFrame(this.frameIndex++);
+      return;
+    }
+
+    this.frameIndex++;
+    await new Promise<void>(resolve => {
       setTimeout(resolve, 1000 / this.fps);
     });
   }
@@ -0,0 +1,315 @@
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { Muxer as WebmMuxer, ArrayBufferTarget as WebmTarget } from 'webm-muxer';
+
+export type ExportContainer = 'mp4' | 'webm';
+
+/**
+ * Decoded audio to encode. An AudioBuffer fits; so does raw channel data
+ * in a worker, where AudioBuffer does not exist.
+ */
+export type PcmAudio = Pick<AudioBuffer, 'numberOfChannels' | 'getChannelData'>;
+
+interface ExporterOptions {
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  width: number;
+  height: number;
+  fps: number;
+  videoBitsPerSecond: number;
+  audio: PcmAudio | null;
+  /** Container to use; 'auto' picks the first one the browser can encode. */
+  container?: ExportContainer | 'auto';
+}
+
+interface ContainerFormat {
+  container: ExportContainer;
+  mimeType: string;
+  videoCodecs: { encoder: string; muxer: string }[];
+  audioCodec: { encoder: string; muxer: string };
+}
+
+/** The subset of the mp4-muxer and webm-muxer APIs the exporter uses. */
+interface ContainerMuxer {
+  addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata): void;
+  addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata): void;
+  finalize(): void;
+  readonly buffer: ArrayBuffer;
+}
+
+// MP4 (H.264/AAC) first: it plays everywhere, including iOS, and goes
+// through the same playback path as server-rendered videos
+const FORMATS: ContainerFormat[] = [
+  {
+    container: 'mp4',
+    mimeType: 'video/mp4',
+    // High profile, level 4.0: up to 1920x1080 and 1080x1920 at 30fps
+    videoCodecs: [{ encoder: 'avc1.640028', muxer: 'avc' }],
+    audioCodec: { encoder: 'mp4a.40.2', muxer: 'aac' }
+  },
+  {
+    container: 'webm',
+    mimeType: 'video/webm',
+    videoCodecs: [
+      { encoder: 'vp09.00.10.08', muxer: 'V_VP9' },
+      { encoder: 'vp8', muxer: 'V_VP8' }
+    ],
+    audioCodec: { encoder: 'opus', muxer: 'A_OPUS' }
+  }
+];
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_FRAME_SIZE = 960; // 20ms at 48kHz; encoders rebuffer to their own frame size
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE = 8;
+
+function createMuxer(
+  format: ContainerFormat,
+  videoCodec: string,
+  options: ExporterOptions,
+  audio: PcmAudio | null
+): ContainerMuxer {
+  const audioTrack = audio
+    ? { codec: format.audioCodec.muxer, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: audio.numberOfChannels }
+    : undefined;
+
+  if (format.container === 'mp4') {
+    const muxer = new Mp4Muxer({
+      target: new Mp4Target(),
+      video: { codec: videoCodec as 'avc', width: options.width, height: options.height, frameRate: options.fps },
+      audio: audioTrack && { ...audioTrack, codec: audioTrack.codec as 'aac' },
+      // Keep the index at the front so playback can start before the download ends
+      fastStart: 'in-memory'
+    });
+    return {
+      addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => muxer.finalize(),
+      get buffer() { return muxer.target.buffer; }
+    };
+  }
+
+  const muxer = new WebmMuxer({
+    target: new WebmTarget(),
+    video: { codec: videoCodec, width: options.width, height: options.height, frameRate: options.fps },
+    audio: audioTrack
+  });
+  return {
+    addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => muxer.finalize(),
+    get buffer() { return muxer.target.buffer; }
+  };
+}
+
+/**
+ * Encodes canvas frames with explicit timestamps through WebCodecs and muxes
+ * them into an MP4 or WebM file. Unlike MediaRecorder, output timing is
+ * derived from the frame index, so rendering can run as fast as the machine
+ * allows.
+ */
+export default class WebCodecsExporter {
+  readonly container: ExportContainer;
+  private mimeType: string;
+  private audioCodec: string;
+  private canvas: HTMLCanvasElement | OffscreenCanvas;
+  private fps: number;
+  private audio: PcmAudio | null;
+  private muxer: ContainerMuxer;
+  private videoEncoder: VideoEncoder;
+  private encodeError: Error | null = null;
+  // Ends addFrame's wait for the queue to drain when the encoder fails or closes
+  private stopWaiting: ((error: Error) => void) | null = null;
+  private framesEncoded = 0;
+
+  static isSupported(): boolean {
+    return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+  }
+
+  /**
+   * Resolve the first container and codec configuration the browser can
+   * encode. A container is only chosen when its audio codec is encodable
+   * too, unless there is no audio. Returns null when WebCodecs is present
+   * but no usable configuration is available.
+   */
+  static async create(options: ExporterOptions): Promise<WebCodecsExporter | null> {
+    if (!WebCodecsExporter.isSupported()) return null;
+
+    const preferred = options.container ?? 'auto';
+    const formats = preferred === 'auto' ? FORMATS : FORMATS.filter(f => f.container === preferred);
+
+    for (const format of formats) {
+      if (options.audio && !await WebCodecsExporter.canEncodeAudio(format.audioCodec.encoder, options.audio)) {
+        continue;
+      }
+
+      for (const codec of format.videoCodecs) {
+        const config: VideoEncoderConfig = {
+          codec: codec.encoder,
+          width: options.width,
+          height: options.height,
+          bitrate: options.videoBitsPerSecond,
+          framerate: options.fps,
+          ...(format.container === 'mp4' ? { avc: { format: 'avc' as const } } : {})
+        };
+        try {
+          const support = await VideoEncoder.isConfigSupported(config);
+          if (support.supported) {
+            return new WebCodecsExporter(options, format, config, codec.muxer);
+          }
+        } catch (err) {
+          console.warn('[EXPORT] Codec probe failed:', codec.encoder, err);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private static async canEncodeAudio(codec: string, audio: PcmAudio): Promise<boolean> {
+    if (typeof AudioEncoder === 'undefined' || typeof AudioData === 'undefined') return false;
+    try {
+      const support = await AudioEncoder.isConfigSupported({
+        codec,
+        sampleRate: AUDIO_SAMPLE_RATE,
+        numberOfChannels: audio.numberOfChannels
+      });
+      return !!support.supported;
+    } catch {
+      return false;
+    }
+  }
+
+  private constructor(
+    options: ExporterOptions,
+    format: ContainerFormat,
+    config: VideoEncoderConfig,
+    muxerCodec: string
+  ) {
+    this.container = format.container;
+    this.mimeType = format.mimeType;
+    this.audioCodec = format.audioCodec.encoder;
+    this.canvas = options.canvas;
+    this.fps = options.fps;
+    this.audio = options.audio;
+    this.muxer = createMuxer(format, muxerCodec, options, options.audio);
+
+    this.videoEncoder = new VideoEncoder({
+      output: (chunk, meta) => this.muxer.addVideoChunk(chunk, meta),
+      error: (e) => {
+        this.encodeError = e;
+        this.stopWaiting?.(e);
+      }
+    });
+    this.videoEncoder.configure(config);
+  }
+
+  /**
+   * Encode the current canvas contents as frame `frameIndex`.
+   * Waits when the encoder queue is full so memory stays bounded, and
+   * throws if the encoder fails or is closed while waiting.
+   */
+  async addFrame(frameIndex: number): Promise<void> {
+    if (this.encodeError) throw this.encodeError;
+
+    while (this.videoEncoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+      if (this.videoEncoder.state === 'closed') throw new Error('Video encoder closed');
+      try {
+        await new Promise<void>((resolve, reject) => {
+          this.stopWaiting = reject;
+          this.videoEncoder.addEventListener('dequeue', () => resolve(), { once: true });
+        });
+      } finally {
+        this.stopWaiting = null;
+      }
+    }
+
+    const frameDuration = 1_000_000 / this.fps;
+    const frame = new VideoFrame(this.canvas, {
+      timestamp: Math.round(frameIndex * frameDuration),
+      duration: Math.round(frameDuration)
+    });
+    const keyFrame = frameIndex % Math.round(this.fps * KEYFRAME_INTERVAL_SECONDS) === 0;
+    this.videoEncoder.encode(frame, { keyFrame });
+    frame.close();
+    this.framesEncoded = frameIndex + 1;
+  }
+
+  /**
+   * Flush the encoders, add the music bed and return the finished file.
+   */
+  async finish(): Promise<Blob> {
+    await this.videoEncoder.flush();
+    this.videoEncoder.close();
+    if (this.encodeError) throw this.encodeError;
+
+    if (this.audio) {
+      await this.encodeAudio(this.audio, this.framesEncoded / this.fps);
+    }
+
+    this.muxer.finalize();
+    return new Blob([this.muxer.buffer], { type: this.mimeType });
+  }
+
+  /** Drop everything encoded so far; used when a render fails or is cancelled. */
+  abort(): void {
+    if (this.videoEncoder.state !== 'closed') {
+      this.videoEncoder.close();
+    }
+    this.stopWaiting?.(new Error('Video encoder closed'));
+  }
+
+  private async encodeAudio(audio: PcmAudio, durationSeconds: number): Promise<void> {
+    let audioError: Error | null = null;
+    const encoder = new AudioEncoder({
+      output: (chunk, meta) => this.muxer.addAudioChunk(chunk, meta),
+      error: (e) => { audioError = e; }
+    });
+    encoder.configure({
+      codec: this.audioCodec,
+      sampleRate: AUDIO_SAMPLE_RATE,
+      numberOfChannels: audio.numberOfChannels,
+      bitrate: 128000
+    });
+
+    const channels = audio.numberOfChannels;
+    const totalSamples = Math.round(durationSeconds * AUDIO_SAMPLE_RATE);
+    const sources = Array.from({ length: channels }, (_, c) => audio.getChannelData(c));
+
+    for (let offset = 0; offset < totalSamples; offset += AUDIO_FRAME_SIZE) {
+      const frameSize = Math.min(AUDIO_FRAME_SIZE, totalSamples - offset);
+      const planar = new Float32Array(frameSize * channels);
+      for (let c = 0; c < channels; c++) {
+        for (let i = 0; i < frameSize; i++) {
+          // The bed is mixed to the video length; pad any rounding shortfall with silence
+          planar[c * frameSize + i] = sources[c][offset + i] ?? 0;
+        }
+      }
+
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate: AUDIO_SAMPLE_RATE,
+        numberOfFrames: frameSize,
+        numberOfChannels: channels,
+        timestamp: Math.round((offset / AUDIO_SAMPLE_RATE) * 1_000_000),
+        data: planar
+      });
+      encoder.encode(data);
+      data.close();
+    }
+
+    await encoder.flush();
+    encoder.close();
+    if (audioError) throw audioError;
+  }
+}
+
+/**
+ * Decode a track to an AudioBuffer at the sample rate the exporter encodes at.
+ */
+export async function decodeAudioTrack(url: string): Promise<AudioBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Audio fetch failed (${response.status})`);
+  }
+  const bytes = await response.arrayBuffer();
+  const ctx = new OfflineAudioContext(2, 1, AUDIO_SAMPLE_RATE);
+  return ctx.decodeAudioData(bytes);
+}
@@ -1,3 +1,6 @@
+import type { SequenceFeatures } from "./heuristicSequencer";
+import type { StoryPlan } from "../types/storyPlan";
+
 const API_BASE = import.meta.env.VITE_API_BASE_URL || "http://localhost:3001";
 // Vercel API base - for OpenAI endpoints (sequence, vision)
 const VERCEL_API_BASE = typeof window !== 'undefined' 
@@ -16,6 +19,13 @@ export type SequenceResponse = {
   order: number[];
   beats?: string[];
   rationale?: string;
+  /** Set when the server ordered locally because the AI provider failed. */
+  fallback?: boolean;
+};
+
+export type SequenceFrame = {
+  base64: string;
+  mimeType: string;
 };
 
 export type SequenceImage = {
@@ -23,6 +33,10 @@ export type SequenceImage = {
   url?: string;
   base64?: string;
   mimeType?: string;
+  /** For a video clip, stills sampled through its trim window; the image above is its poster. */
+  frames?: SequenceFrame[];
+  /** For the server's heuristic fallback. */
+  features?: SequenceFeatures;
 };
 
 /**
@@ -57,6 +71,128 @@ export async function getImageSequence(
   return data;
 }
 
+/**
+ * Order, per-photo roles, motion and framing, transitions, title and music
+ * mood in one call
+ * Calls Vercel serverless function /api/plan
+ */
+export async function getStoryPlan(
+  images: SequenceImage[],
+  context?: string,
+  aspectRatio?: string,
+  frameRate?: number
+): Promise<StoryPlan> {
+  const response = await fetch(`${VERCEL_API_BASE}/api/plan`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      images,
+      context,
+      aspectRatio,
+      frameRate,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to plan the video' }));
+    throw new Error(errorData.error || `Plan API error (${response.status})`);
+  }
+
+  return response.json();
+}
+
+export type VisionSubject = {
+  label: string;
+  /** Normalised (0-1) to the image, from the top-left. */
+  box: { x: number; y: number; width: number; height: number };
+};
+
+/** Why an image's analysis failed; its frame then holds neutral values. */
+export type VisionFailure = {
+  kind: 'timeout' | 'http' | 'parse' | 'error';
+  message: string;
+  /** OpenAI's status, for HTTP failures. */
+  status?: number;
+};
+
+export type VisionFrame = {
+  index: number;
+  tags: string[];
+  mood: string;
+  subject: string;
+  qualityNotes: string;
+  suggestedRole: 'opening' | 'middle' | 'climax' | 'ending' | 'transition';
+  subjects: VisionSubject[];
+  failure?: VisionFailure;
+};
+
+/**
+ * Per-image analysis (mood, subject boxes) from OpenAI
+ * Calls Vercel serverless function /api/vision
+ * With `onFrame`, the response is streamed and each frame is passed on as
+ * its image finishes; either way the result is every frame in image order.
+ */
+export async function getImageVision(
+  images: SequenceImage[],
+  onFrame?: (frame: VisionFrame) => void
+): Promise<VisionFrame[]> {
+  const stream = onFrame !== undefined;
+  const response = await fetch(`${VERCEL_API_BASE}/api/vision${stream ? '?stream=true' : ''}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(stream ? { 'Accept': 'text/event-stream' } : {}),
+    },
+    body: JSON.stringify({ images }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to analyze images' }));
+    throw new Error(errorData.error || `Vision API error (${response.status})`);
+  }
+
+  if (!stream) {
+    const data = await response.json();
+    return data.frames ?? [];
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('Stream not available');
+  }
+
+  const decoder = new TextDecoder();
+  const frames: VisionFrame[] = [];
+  let buffer = '';
+  let currentEvent = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('event: ')) {
+        currentEvent = trimmed.slice(7).trim();
+      } else if (trimmed.startsWith('data: ')) {
+        if (currentEvent === 'frame') {
+          const frame: VisionFrame = JSON.parse(trimmed.slice(6));
+          frames.push(frame);
+          onFrame(frame);
+        }
+        currentEvent = '';
+      }
+    }
+  }
+
+  return frames.sort((a, b) => a.index - b.index);
+}
+
 export async function fetchSignedVideoPayload(path: string, prefer?: string): Promise<SignedUrlPayload> {
   const params = new URLSearchParams({ path });
   if (prefer) params.set('prefer', prefer);
@@ -0,0 +1,236 @@
+/**
+ * Music bed mixing for rendered videos.
+ * The track is laid out on an OfflineAudioContext timeline exactly as long
+ * as the video: trimmed to its recommended start, looped with crossfades when
+ * it is too short, faded in under the title card and out with the picture,
+ * and gain-normalised so every track sits at the same loudness. Video clips
+ * that keep their own sound are laid over the bed with the music ducked
+ * beneath them.
+ */
+
+export interface MixOptions {
+  durationSeconds: number;
+  /** Where in the track the video starts (manifest `recommendedStartSec`). */
+  startOffsetSeconds?: number;
+  fadeInSeconds?: number;
+  fadeOutSeconds?: number;
+  loopCrossfadeSeconds?: number;
+  /** Target gated RMS level in dBFS. */
+  targetLevelDb?: number;
+}
+
+/** A video clip's own sound, placed on the video's timeline. */
+export interface ClipSound {
+  buffer: AudioBuffer;
+  /** When the clip appears in the video. */
+  startSeconds: number;
+  /** Where in the clip's audio to start, i.e. its trim start. */
+  offsetSeconds: number;
+  durationSeconds: number;
+}
+
+export interface ClipMixOptions {
+  durationSeconds: number;
+  /** How far the music drops while a clip is heard. */
+  duckDb?: number;
+  targetLevelDb?: number;
+}
+
+const DEFAULT_LOOP_CROSSFADE_SECONDS = 2;
+const DEFAULT_TARGET_LEVEL_DB = -18;
+// Blocks quieter than this are ignored when measuring, so long fades and
+// silent tails do not make a track look quieter than it sounds
+const GATE_DB = -50;
+const MEASURE_BLOCK_SECONDS = 0.4;
+const PEAK_CEILING = 0.98;
+const DEFAULT_DUCK_DB = -14;
+const DUCK_RAMP_SECONDS = 0.3;
+// Short fades at clip edges so cuts in the clip's sound do not click
+const CLIP_EDGE_FADE_SECONDS = 0.05;
+
+function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * Gated RMS level and sample peak of `buffer` from `startSeconds` on.
+ */
+export function measureLevel(buffer: AudioBuffer, startSeconds = 0): { rmsDb: number; peak: number } {
+  const block = Math.max(1, Math.round(MEASURE_BLOCK_SECONDS * buffer.sampleRate));
+  const gate = dbToGain(GATE_DB);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  let peak = 0;
+  let gatedSum = 0;
+  let gatedCount = 0;
+
+  for (let start = Math.floor(startSeconds * buffer.sampleRate); start < buffer.length; start += block) {
+    const end = Math.min(buffer.length, start + block);
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = start; i < end; i++) {
+        const v = data[i];
+        sum += v * v;
+        if (Math.abs(v) > peak) peak = Math.abs(v);
+      }
+    }
+    const count = (end - start) * channels.length;
+    if (Math.sqrt(sum / count) >= gate) {
+      gatedSum += sum;
+      gatedCount += count;
+    }
+  }
+
+  const rms = gatedCount > 0 ? Math.sqrt(gatedSum / gatedCount) : 0;
+  return { rmsDb: rms > 0 ? 20 * Math.log10(rms) : -Infinity, peak };
+}
+
+export async function mixMusicBed(track: AudioBuffer, options: MixOptions): Promise<AudioBuffer> {
+  const sampleRate = track.sampleRate;
+  const duration = Math.max(0, options.durationSeconds);
+  const length = Math.max(1, Math.round(duration * sampleRate));
+  const ctx = new OfflineAudioContext(track.numberOfChannels, length, sampleRate);
+
+  const startOffset = Math.min(Math.max(0, options.startOffsetSeconds ?? 0), Math.max(0, track.duration - 1));
+  const segment = track.duration - startOffset;
+  const crossfade = Math.min(options.loopCrossfadeSeconds ?? DEFAULT_LOOP_CROSSFADE_SECONDS, segment / 4);
+
+  const gain = normalisingGain(track, options.targetLevelDb ?? DEFAULT_TARGET_LEVEL_DB, startOffset);
+
+  const master = ctx.createGain();
+  master.connect(ctx.destination);
+  const fadeIn = Math.min(options.fadeInSeconds ?? 0, duration / 2);
+  const fadeOut = Math.min(options.fadeOutSeconds ?? 0, duration / 2);
+  master.gain.setValueAtTime(fadeIn > 0 ? 0 : gain, 0);
+  if (fadeIn > 0) master.gain.linearRampToValueAtTime(gain, fadeIn);
+  if (fadeOut > 0) {
+    master.gain.setValueAtTime(gain, duration - fadeOut);
+    master.gain.linearRampToValueAtTime(0, duration);
+  }
+
+  // Lay copies of the track end to end, overlapping by the crossfade, until
+  // the video is covered. Each copy fades in over the previous one's tail.
+  const stride = segment - crossfade;
+  for (let at = 0, index = 0; at < duration; at += stride, index++) {
+    const source = ctx.createBufferSource();
+    source.buffer = track;
+    const envelope = ctx.createGain();
+    source.connect(envelope).connect(master);
+
+    if (index > 0 && crossfade > 0) {
+      envelope.gain.setValueAtTime(0, at);
+      envelope.gain.linearRampToValueAtTime(1, at + crossfade);
+    }
+    const end = at + segment;
+    if (end < duration && crossfade > 0) {
+      envelope.gain.setValueAtTime(1, end - crossfade);
+      envelope.gain.linearRampToValueAtTime(0, end);
+    }
+
+    source.start(at, startOffset);
+  }
+
+  return ctx.startRendering();
+}
+
+/** Level-matching gain for `buffer`, kept under the peak ceiling. */
+function normalisingGain(buffer: AudioBuffer, targetLevelDb: number, startSeconds = 0): number {
+  const { rmsDb, peak } = measureLevel(buffer, startSeconds);
+  const targetGain = Number.isFinite(rmsDb) ? dbToGain(targetLevelDb - rmsDb) : 1;
+  return peak > 0 ? Math.min(targetGain, PEAK_CEILING / peak) : targetGain;
+}
+
+/**
+ * Lay video clips' own sound over a music bed. The music dips by `duckDb`
+ * while each clip plays, with clips close together sharing one dip so the
+ * music does not pump between them. Without a bed the clips play over
+ * silence.
+ */
+export async function mixClipAudio(bed: AudioBuffer | null, clips: ClipSound[], options: ClipMixOptions): Promise<AudioBuffer> {
+  const sampleRate = bed?.sampleRate ?? clips[0]?.buffer.sampleRate ?? 48000;
+  const duration = Math.max(0, options.durationSeconds);
+  const channels = Math.max(2, bed?.numberOfChannels ?? 0);
+  const ctx = new OfflineAudioContext(channels, Math.max(1, Math.round(duration * sampleRate)), sampleRate);
+  const targetLevelDb = options.targetLevelDb ?? DEFAULT_TARGET_LEVEL_DB;
+
+  const windows: [number, number][] = [];
+  for (const clip of [...clips].sort((a, b) => a.startSeconds - b.startSeconds)) {
+    const start = clip.startSeconds;
+    const end = Math.min(duration, start + clip.durationSeconds);
+    const last = windows[windows.length - 1];
+    if (last && start - last[1] < DUCK_RAMP_SECONDS * 2) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      windows.push([start, end]);
+    }
+  }
+
+  if (bed) {
+    const music = ctx.createBufferSource();
+    music.buffer = bed;
+    const duck = ctx.createGain();
+    music.connect(duck).connect(ctx.destination);
+    const ducked = dbToGain(options.duckDb ?? DEFAULT_DUCK_DB);
+    duck.gain.setValueAtTime(1, 0);
+    for (const [start, end] of windows) {
+      const rampStart = Math.max(0, start - DUCK_RAMP_SECONDS);
+      duck.gain.setValueAtTime(1, rampStart);
+      duck.gain.linearRampToValueAtTime(ducked, Math.max(rampStart, start));
+      duck.gain.setValueAtTime(ducked, end);
+      duck.gain.linearRampToValueAtTime(1, end + DUCK_RAMP_SECONDS);
+    }
+    music.start(0);
+  }
+
+  for (const clip of clips) {
+    const length = Math.min(clip.durationSeconds, clip.buffer.duration - clip.offsetSeconds, duration - clip.startSeconds);
+    if (length <= 0) continue;
+    const source = ctx.createBufferSource();
+    source.buffer = clip.buffer;
+    const envelope = ctx.createGain();
+    source.connect(envelope).connect(ctx.destination);
+
+    const gain = normalisingGain(clip.buffer, targetLevelDb, clip.offsetSeconds);
+    const fade = Math.min(CLIP_EDGE_FADE_SECONDS, length / 2);
+    const end = clip.startSeconds + length;
+    envelope.gain.setValueAtTime(0, clip.startSeconds);
+    envelope.gain.linearRampToValueAtTime(gain, clip.startSeconds + fade);
+    envelope.gain.setValueAtTime(gain, end - fade);
+    envelope.gain.linearRampToValueAtTime(0, end);
+    source.start(clip.startSeconds, clip.offsetSeconds, length);
+  }
+
+  return ctx.startRendering();
+}
+
+/**
+ * Play a mixed bed into a MediaStream for the realtime recorder path.
+ * The returned `start` begins playback; `stop` ends it and releases the
+ * audio context.
+ */
+export function createPlaybackStream(bed: AudioBuffer): {
+  stream: MediaStream;
+  start: () => void;
+  stop: () => void;
+} {
+  const ctx = new AudioContext({ sampleRate: bed.sampleRate });
+  const destination = ctx.createMediaStreamDestination();
+  const source = ctx.createBufferSource();
+  source.buffer = bed;
+  source.connect(destination);
+
+  return {
+    stream: destination.stream,
+    start: () => {
+      void ctx.resume();
+      source.start();
+    },
+    stop: () => {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped or never started
+      }
+      void ctx.close();
+    }
+  };
+}
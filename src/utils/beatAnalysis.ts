@@ -0,0 +1,196 @@
+/**
+ * Music analysis for beat-synchronised cutting.
+ * Runs entirely in the browser: the track is low-passed through an
+ * OfflineAudioContext to emphasise kick and bass, an onset envelope is built
+ * from the rectified energy flux, and the tempo is the autocorrelation peak
+ * of that envelope. The beat grid is then phase-aligned to the strongest onsets.
+ */
+
+export type NarrativePhase = 'intro' | 'development' | 'climax' | 'resolve';
+
+export interface BeatAnalysis {
+  bpm: number;
+  /** Beat times in seconds from the start of the buffer. */
+  beats: number[];
+  /** Downbeat times in seconds, assuming 4/4. */
+  bars: number[];
+  /** Loudness curve normalised to 0-1, one value per `energyWindowSeconds`. */
+  energy: number[];
+  energyWindowSeconds: number;
+}
+
+const HOP_SIZE = 512;
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+// Listeners perceive tempi near 120 BPM most readily; weighting towards it
+// resolves the usual half/double-time ambiguity of autocorrelation
+const PREFERRED_BPM = 120;
+const ENERGY_WINDOW_SECONDS = 0.5;
+const BEATS_PER_BAR = 4;
+
+export async function analyzeBeats(buffer: AudioBuffer): Promise<BeatAnalysis> {
+  const ctx = new OfflineAudioContext(1, buffer.length, buffer.sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  const lowpass = ctx.createBiquadFilter();
+  lowpass.type = 'lowpass';
+  lowpass.frequency.value = 150;
+  source.connect(lowpass).connect(ctx.destination);
+  source.start();
+
+  const filtered = (await ctx.startRendering()).getChannelData(0);
+  const hopSeconds = HOP_SIZE / buffer.sampleRate;
+
+  const onsets = onsetEnvelope(filtered);
+  const period = estimatePeriod(onsets, hopSeconds);
+  const offset = bestPhase(onsets, period);
+
+  const beats: number[] = [];
+  for (let frame = offset; frame < onsets.length; frame += period) {
+    beats.push(frame * hopSeconds);
+  }
+
+  return {
+    bpm: 60 / (period * hopSeconds),
+    beats,
+    bars: beats.filter((_, i) => i % BEATS_PER_BAR === 0),
+    energy: energyCurve(buffer),
+    energyWindowSeconds: ENERGY_WINDOW_SECONDS
+  };
+}
+
+function onsetEnvelope(samples: Float32Array): Float32Array {
+  const frames = Math.floor(samples.length / HOP_SIZE);
+  const envelope = new Float32Array(frames);
+  let previous = 0;
+
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let i = f * HOP_SIZE; i < (f + 1) * HOP_SIZE; i++) {
+      sum += samples[i] * samples[i];
+    }
+    const energy = Math.sqrt(sum / HOP_SIZE);
+    envelope[f] = Math.max(0, energy - previous);
+    previous = energy;
+  }
+
+  return envelope;
+}
+
+/** Beat period in (fractional) envelope frames. */
+function estimatePeriod(envelope: Float32Array, hopSeconds: number): number {
+  const minLag = Math.max(1, Math.floor(60 / MAX_BPM / hopSeconds));
+  const maxLag = Math.min(envelope.length - 1, Math.ceil(60 / MIN_BPM / hopSeconds));
+  const scores = new Float32Array(maxLag + 2);
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) {
+      sum += envelope[i] * envelope[i - lag];
+    }
+    const bpm = 60 / (lag * hopSeconds);
+    const octaves = Math.log2(bpm / PREFERRED_BPM);
+    scores[lag] = sum * Math.exp(-0.5 * octaves * octaves);
+  }
+
+  let best = minLag;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (scores[lag] > scores[best]) best = lag;
+  }
+
+  // Parabolic interpolation: the true period rarely falls on a whole hop
+  const left = scores[best - 1] ?? 0;
+  const right = scores[best + 1] ?? 0;
+  const denominator = left - 2 * scores[best] + right;
+  const shift = denominator !== 0 ? (left - right) / (2 * denominator) : 0;
+  return best + Math.max(-0.5, Math.min(0.5, shift));
+}
+
+function bestPhase(envelope: Float32Array, period: number): number {
+  let bestOffset = 0;
+  let bestScore = -1;
+
+  for (let offset = 0; offset < period; offset++) {
+    let score = 0;
+    for (let frame = offset; frame < envelope.length; frame += period) {
+      score += envelope[Math.round(frame)] ?? 0;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestOffset = offset;
+    }
+  }
+
+  return bestOffset;
+}
+
+function energyCurve(buffer: AudioBuffer): number[] {
+  const window = Math.max(1, Math.round(ENERGY_WINDOW_SECONDS * buffer.sampleRate));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const curve: number[] = [];
+
+  for (let start = 0; start < buffer.length; start += window) {
+    const end = Math.min(buffer.length, start + window);
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = start; i < end; i++) sum += data[i] * data[i];
+    }
+    curve.push(Math.sqrt(sum / ((end - start) * channels.length)));
+  }
+
+  // Smooth over ~2s so individual hits do not read as sections
+  const smoothed = curve.map((_, i) => {
+    const from = Math.max(0, i - 2);
+    const to = Math.min(curve.length, i + 3);
+    return curve.slice(from, to).reduce((a, b) => a + b, 0) / (to - from);
+  });
+  const peak = Math.max(...smoothed, 1e-6);
+  return smoothed.map(v => v / peak);
+}
+
+export function energyAt(analysis: BeatAnalysis, seconds: number): number {
+  const index = Math.floor(seconds / analysis.energyWindowSeconds);
+  return analysis.energy[Math.min(analysis.energy.length - 1, Math.max(0, index))] ?? 0;
+}
+
+/**
+ * Narrative phase at `seconds` into a video of `totalSeconds`, following
+ * the track's energy: the intro lasts until the music first reaches its
+ * median level, the climax is where it sits in its top fifth, and the
+ * resolve begins once it falls away for the last time.
+ */
+export function phaseAt(analysis: BeatAnalysis, seconds: number, totalSeconds: number): NarrativePhase {
+  const windows = Math.max(1, Math.ceil(totalSeconds / analysis.energyWindowSeconds));
+  const span = analysis.energy.slice(0, windows);
+  const sorted = [...span].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length * 0.5)] ?? 0;
+  const climaxLevel = sorted[Math.floor(sorted.length * 0.8)] ?? 1;
+
+  const firstLoud = span.findIndex(v => v >= median);
+  let lastLoud = span.length - 1;
+  while (lastLoud > 0 && span[lastLoud] < median) lastLoud--;
+
+  const introEnd = Math.min(0.25, Math.max(0.08, (firstLoud * analysis.energyWindowSeconds) / totalSeconds));
+  const resolveStart = Math.min(0.95, Math.max(0.8, ((lastLoud + 1) * analysis.energyWindowSeconds) / totalSeconds));
+  const position = seconds / totalSeconds;
+
+  if (position < introEnd) return 'intro';
+  if (position >= resolveStart) return 'resolve';
+  if (energyAt(analysis, seconds) >= climaxLevel) return 'climax';
+  return 'development';
+}
+
+/**
+ * Re-base an analysis so time 0 is `startSeconds` into the track, for
+ * music beds that skip the track's opening.
+ */
+export function offsetAnalysis(analysis: BeatAnalysis, startSeconds: number): BeatAnalysis {
+  if (startSeconds <= 0) return analysis;
+  const shift = (times: number[]) => times.filter(t => t >= startSeconds).map(t => t - startSeconds);
+  return {
+    ...analysis,
+    beats: shift(analysis.beats),
+    bars: shift(analysis.bars),
+    energy: analysis.energy.slice(Math.floor(startSeconds / analysis.energyWindowSeconds))
+  };
+}
@@ -0,0 +1,413 @@
+import { imageSize, type DrawableImage, type DrawingContext } from '../types/canvas';
+
+/**
+ * Colour grading for the renderer. Each photo is graded once when a plan is
+ * loaded: its exposure and white balance are normalised so photos from
+ * different phones sit together, then a 3D LUT applies the look. Film grain
+ * and the vignette are the only per-frame work, drawn over the finished
+ * image with canvas compositing.
+ */
+
+export type LookName = 'none' | 'warm-film' | 'faded' | 'black-and-white' | 'teal-orange' | 'custom';
+
+export interface ColorGrading {
+  look: LookName;
+  /** .cube file used by the 'custom' look. */
+  lutUrl?: string;
+  /** Normalise each photo's exposure and white balance before the look. */
+  autoBalance: boolean;
+}
+
+/** A 3D LUT as stored in a .cube file: RGB triples with red varying fastest. */
+export interface Lut3D {
+  size: number;
+  data: Float32Array;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+}
+
+/** Everything the renderer needs to grade a plan, resolved once per load. */
+export interface GradeStage {
+  lut: Lut3D | null;
+  autoBalance: boolean;
+  /** Overlay strengths, 0-1. */
+  grain: number;
+  vignette: number;
+}
+
+type ColorTransform = (r: number, g: number, b: number) => [number, number, number];
+
+interface LookDefinition {
+  label: string;
+  transform?: ColorTransform;
+  grain: number;
+  vignette: number;
+}
+
+export const NO_GRADING: ColorGrading = { look: 'none', autoBalance: false };
+
+const GENERATED_LUT_SIZE = 33;
+// Auto balance only corrects this far, so deliberate sunsets and night
+// shots keep their character
+const MAX_WHITE_BALANCE_GAIN = 1.25;
+const MIN_EXPOSURE_GAIN = 0.8;
+const MAX_EXPOSURE_GAIN = 1.35;
+const TARGET_LUMA = 0.46;
+const BALANCE_SAMPLE_STEP = 16;
+const GRAIN_TILE_SIZE = 256;
+const GRAIN_SEED = 0x9e3779b9;
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function luma(r: number, g: number, b: number): number {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function saturate(r: number, g: number, b: number, amount: number): [number, number, number] {
+  const y = luma(r, g, b);
+  return [y + (r - y) * amount, y + (g - y) * amount, y + (b - y) * amount];
+}
+
+/** Gentle S-curve around mid-grey; `amount` 0 leaves values unchanged. */
+function contrast(value: number, amount: number): number {
+  const curved = value < 0.5 ? 2 * value * value : 1 - 2 * (1 - value) * (1 - value);
+  return value + (curved - value) * amount;
+}
+
+const LOOKS: Record<LookName, LookDefinition> = {
+  none: { label: 'Natural', grain: 0, vignette: 0 },
+  'warm-film': {
+    label: 'Warm film',
+    transform: (r, g, b) => {
+      const [sr, sg, sb] = saturate(r * 1.05 + 0.015, g * 1.01 + 0.01, b * 0.9 + 0.02, 0.9);
+      return [contrast(sr, 0.25), contrast(sg, 0.25), contrast(sb, 0.2)];
+    },
+    grain: 0.07,
+    vignette: 0.35
+  },
+  faded: {
+    label: 'Faded',
+    transform: (r, g, b) => {
+      const [sr, sg, sb] = saturate(r, g, b, 0.7);
+      // Lifted blacks and softened whites
+      return [0.08 + sr * 0.84, 0.08 + sg * 0.83, 0.1 + sb * 0.8];
+    },
+    grain: 0.05,
+    vignette: 0.2
+  },
+  'black-and-white': {
+    label: 'Black & white',
+    transform: (r, g, b) => {
+      // Weighted towards red like a classic panchromatic stock, so skin stays light
+      const y = contrast(clamp01(0.4 * r + 0.45 * g + 0.15 * b), 0.35);
+      return [y, y, y];
+    },
+    grain: 0.09,
+    vignette: 0.4
+  },
+  'teal-orange': {
+    label: 'Teal & orange',
+    transform: (r, g, b) => {
+      const y = luma(r, g, b);
+      // Shadows lean teal, highlights lean orange
+      const shadow = 1 - y;
+      const [sr, sg, sb] = saturate(
+        r + 0.08 * y - 0.06 * shadow,
+        g + 0.02 * y + 0.02 * shadow,
+        b - 0.08 * y + 0.07 * shadow,
+        1.1
+      );
+      return [contrast(sr, 0.2), contrast(sg, 0.2), contrast(sb, 0.2)];
+    },
+    grain: 0.04,
+    vignette: 0.3
+  },
+  custom: { label: 'Custom LUT', grain: 0.04, vignette: 0.25 }
+};
+
+export const LOOK_NAMES = Object.keys(LOOKS) as LookName[];
+
+export function lookLabel(look: LookName): string {
+  return LOOKS[look].label;
+}
+
+/**
+ * Parse the text of a .cube file (Adobe/Resolve format). Only 3D LUTs are
+ * supported; 1D shaper LUTs are rejected rather than silently ignored.
+ */
+export function parseCubeLut(text: string): Lut3D {
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  const triple = (parts: string[], line: string): [number, number, number] => {
+    const numbers = parts.map(Number);
+    if (numbers.length !== 3 || !numbers.every(Number.isFinite)) {
+      throw new Error(`Invalid .cube line: ${line}`);
+    }
+    return numbers as [number, number, number];
+  };
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [keyword, ...rest] = line.split(/\s+/);
+
+    if (keyword === 'TITLE') continue;
+    if (keyword === 'LUT_1D_SIZE') throw new Error('1D .cube LUTs are not supported');
+    if (keyword === 'LUT_3D_SIZE') {
+      size = Number(rest[0]);
+      if (!Number.isInteger(size) || size < 2 || size > 256) throw new Error(`Invalid LUT_3D_SIZE: ${rest[0]}`);
+      continue;
+    }
+    if (keyword === 'DOMAIN_MIN') {
+      domainMin = triple(rest, line);
+      continue;
+    }
+    if (keyword === 'DOMAIN_MAX') {
+      domainMax = triple(rest, line);
+      continue;
+    }
+    values.push(...triple([keyword, ...rest], line));
+  }
+
+  if (size === 0) throw new Error('.cube file has no LUT_3D_SIZE');
+  if (values.length !== size * size * size * 3) {
+    throw new Error(`.cube file has ${values.length / 3} entries; expected ${size ** 3}`);
+  }
+  return { size, data: Float32Array.from(values), domainMin, domainMax };
+}
+
+export async function loadCubeLut(url: string): Promise<Lut3D> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`LUT fetch failed (${response.status})`);
+  }
+  return parseCubeLut(await response.text());
+}
+
+/** Sample a colour transform into a LUT, as if it had been loaded from a .cube file. */
+export function lutFromTransform(transform: ColorTransform, size = GENERATED_LUT_SIZE): Lut3D {
+  const data = new Float32Array(size * size * size * 3);
+  let i = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const out = transform(r / (size - 1), g / (size - 1), b / (size - 1));
+        data[i++] = clamp01(out[0]);
+        data[i++] = clamp01(out[1]);
+        data[i++] = clamp01(out[2]);
+      }
+    }
+  }
+  return { size, data, domainMin: [0, 0, 0], domainMax: [1, 1, 1] };
+}
+
+/**
+ * Resolve settings to a grade. A custom LUT that cannot be loaded leaves
+ * the photos ungraded rather than failing the render.
+ */
+export async function resolveGrade(grading: ColorGrading = NO_GRADING): Promise<GradeStage> {
+  const look = LOOKS[grading.look] ?? LOOKS.none;
+  let lut: Lut3D | null = look.transform ? lutFromTransform(look.transform) : null;
+
+  if (grading.look === 'custom' && grading.lutUrl) {
+    try {
+      lut = await loadCubeLut(grading.lutUrl);
+    } catch (err) {
+      console.warn('[GRADE] Custom LUT unusable; rendering without it.', err);
+    }
+  }
+
+  return { lut, autoBalance: grading.autoBalance, grain: look.grain, vignette: look.vignette };
+}
+
+/** Trilinear lookup of one colour (0-1) into `out`. */
+function sampleLut(lut: Lut3D, r: number, g: number, b: number, out: Float32Array): void {
+  const { size, data, domainMin, domainMax } = lut;
+  const max = size - 1;
+  const fr = clamp01((r - domainMin[0]) / (domainMax[0] - domainMin[0])) * max;
+  const fg = clamp01((g - domainMin[1]) / (domainMax[1] - domainMin[1])) * max;
+  const fb = clamp01((b - domainMin[2]) / (domainMax[2] - domainMin[2])) * max;
+  const r0 = Math.floor(fr);
+  const g0 = Math.floor(fg);
+  const b0 = Math.floor(fb);
+  const r1 = Math.min(max, r0 + 1);
+  const g1 = Math.min(max, g0 + 1);
+  const b1 = Math.min(max, b0 + 1);
+  const dr = fr - r0;
+  const dg = fg - g0;
+  const db = fb - b0;
+
+  for (let c = 0; c < 3; c++) {
+    const at = (ri: number, gi: number, bi: number) => data[((bi * size + gi) * size + ri) * 3 + c];
+    const c00 = at(r0, g0, b0) * (1 - dr) + at(r1, g0, b0) * dr;
+    const c10 = at(r0, g1, b0) * (1 - dr) + at(r1, g1, b0) * dr;
+    const c01 = at(r0, g0, b1) * (1 - dr) + at(r1, g0, b1) * dr;
+    const c11 = at(r0, g1, b1) * (1 - dr) + at(r1, g1, b1) * dr;
+    out[c] = (c00 * (1 - dg) + c10 * dg) * (1 - db) + (c01 * (1 - dg) + c11 * dg) * db;
+  }
+}
+
+/**
+ * Per-channel gains that bring the photo's average towards neutral grey
+ * (grey-world white balance) and its brightness towards mid-grey. Both are
+ * clamped so only casts and misexposures are corrected, not the mood.
+ */
+function balanceGains(pixels: Uint8ClampedArray): [number, number, number] {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let count = 0;
+  for (let i = 0; i < pixels.length; i += 4 * BALANCE_SAMPLE_STEP) {
+    r += pixels[i];
+    g += pixels[i + 1];
+    b += pixels[i + 2];
+    count++;
+  }
+  if (count === 0) return [1, 1, 1];
+
+  const mean = [r / count / 255, g / count / 255, b / count / 255];
+  const grey = luma(mean[0], mean[1], mean[2]);
+  if (grey <= 0.01) return [1, 1, 1];
+
+  const exposure = Math.min(MAX_EXPOSURE_GAIN, Math.max(MIN_EXPOSURE_GAIN, TARGET_LUMA / grey));
+  return mean.map(channel => {
+    const balance = channel > 0 ? grey / channel : 1;
+    const limited = Math.min(MAX_WHITE_BALANCE_GAIN, Math.max(1 / MAX_WHITE_BALANCE_GAIN, balance));
+    // Halfway to fully neutral keeps some of the scene's own colour
+    return ((1 + limited) / 2) * exposure;
+  }) as [number, number, number];
+}
+
+function createSurface(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function context2d(surface: HTMLCanvasElement | OffscreenCanvas): DrawingContext {
+  return surface.getContext('2d', { willReadFrequently: true }) as DrawingContext;
+}
+
+/**
+ * Apply auto balance and the LUT to `image`, returning a new surface no
+ * larger than `maxEdge` on its long side. Returns the image untouched when
+ * the grade does nothing to pixels.
+ */
+export function gradeImage(image: DrawableImage, stage: GradeStage, maxEdge: number): DrawableImage {
+  if (!stage.lut && !stage.autoBalance) return image;
+
+  const { width: sourceWidth, height: sourceHeight } = imageSize(image);
+  const scale = Math.min(1, maxEdge / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+
+  const surface = createSurface(width, height);
+  const ctx = context2d(surface);
+  ctx.drawImage(image, 0, 0, width, height);
+  const frame = ctx.getImageData(0, 0, width, height);
+  const pixels = frame.data;
+
+  const [gainR, gainG, gainB] = stage.autoBalance ? balanceGains(pixels) : [1, 1, 1];
+  const graded = new Float32Array(3);
+  for (let i = 0; i < pixels.length; i += 4) {
+    const r = clamp01(pixels[i] / 255 * gainR);
+    const g = clamp01(pixels[i + 1] / 255 * gainG);
+    const b = clamp01(pixels[i + 2] / 255 * gainB);
+    if (stage.lut) {
+      sampleLut(stage.lut, r, g, b, graded);
+    } else {
+      graded[0] = r;
+      graded[1] = g;
+      graded[2] = b;
+    }
+    pixels[i] = graded[0] * 255;
+    pixels[i + 1] = graded[1] * 255;
+    pixels[i + 2] = graded[2] * 255;
+  }
+
+  ctx.putImageData(frame, 0, 0);
+  return surface;
+}
+
+/** Small seeded PRNG (mulberry32), so every render draws the same grain. */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Deterministic per-frame offsets, so preview and export grain match. */
+function grainOffset(frame: number): [number, number] {
+  const hash = Math.sin(frame * 12.9898) * 43758.5453;
+  const x = hash - Math.floor(hash);
+  const y = (hash * 7.31) - Math.floor(hash * 7.31);
+  return [Math.floor(x * GRAIN_TILE_SIZE), Math.floor(y * GRAIN_TILE_SIZE)];
+}
+
+/**
+ * Per-frame film overlay: a vignette and a grain tile shifted every frame.
+ * Returns null when the look has neither.
+ */
+export function createFilmOverlay(
+  width: number,
+  height: number,
+  stage: GradeStage
+): ((ctx: DrawingContext, frame: number) => void) | null {
+  if (stage.grain <= 0 && stage.vignette <= 0) return null;
+
+  let grainTile: HTMLCanvasElement | OffscreenCanvas | null = null;
+  if (stage.grain > 0) {
+    grainTile = createSurface(GRAIN_TILE_SIZE, GRAIN_TILE_SIZE);
+    const tileCtx = context2d(grainTile);
+    const noise = tileCtx.createImageData(GRAIN_TILE_SIZE, GRAIN_TILE_SIZE);
+    const random = seededRandom(GRAIN_SEED);
+    for (let i = 0; i < noise.data.length; i += 4) {
+      // Centred on mid-grey so the overlay blend leaves average brightness alone
+      const value = 128 + (random() + random() - 1) * 96;
+      noise.data[i] = noise.data[i + 1] = noise.data[i + 2] = value;
+      noise.data[i + 3] = 255;
+    }
+    tileCtx.putImageData(noise, 0, 0);
+  }
+
+  return (ctx, frame) => {
+    ctx.save();
+
+    if (grainTile) {
+      const pattern = ctx.createPattern(grainTile, 'repeat');
+      if (pattern) {
+        const [dx, dy] = grainOffset(frame);
+        ctx.globalCompositeOperation = 'overlay';
+        ctx.globalAlpha = stage.grain;
+        ctx.translate(-dx, -dy);
+        ctx.fillStyle = pattern;
+        ctx.fillRect(0, 0, width + dx, height + dy);
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+      }
+    }
+
+    if (stage.vignette > 0) {
+      const radius = Math.hypot(width, height) / 2;
+      const gradient = ctx.createRadialGradient(width / 2, height / 2, radius * 0.45, width / 2, height / 2, radius);
+      gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+      gradient.addColorStop(1, `rgba(0, 0, 0, ${stage.vignette})`);
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+    }
+
+    ctx.restore();
+  };
+}
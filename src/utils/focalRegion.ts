@@ -0,0 +1,166 @@
+import type { CropRect, FocusPoint } from './kenBurns';
+
+/**
+ * Focal regions: the part of a photo the crop and Ken Burns path must keep
+ * in frame. Sources are tried in order: subject boxes from /api/vision, a
+ * local saliency estimate, then the focus point the user set on upload.
+ * Regions are normalised (0-1) to the source image.
+ */
+
+export type FocalSource = 'vision' | 'saliency' | 'manual';
+
+export interface FocalRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  source: FocalSource;
+}
+
+/** A subject box as returned by /api/vision, normalised to the image. */
+export interface SubjectBox {
+  label?: string;
+  box: { x: number; y: number; width: number; height: number };
+}
+
+export interface FocalInputs {
+  subjects?: SubjectBox[];
+  image?: HTMLImageElement;
+  manual?: FocusPoint;
+}
+
+const SALIENCY_SIZE = 64;
+// Share of edge energy that must fall inside the estimated region, relative
+// to its share of the area, before the estimate is trusted
+const MIN_CONCENTRATION = 1.4;
+const MAX_SALIENT_AREA = 0.7;
+// Room given around a manual focus point so faces are not cropped to the nose
+const MANUAL_REGION_SIZE = 0.2;
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function clampRegion(x0: number, y0: number, x1: number, y1: number, source: FocalSource): FocalRegion | null {
+  const left = clamp01(Math.min(x0, x1));
+  const top = clamp01(Math.min(y0, y1));
+  const right = clamp01(Math.max(x0, x1));
+  const bottom = clamp01(Math.max(y0, y1));
+  if (right - left <= 0 || bottom - top <= 0) return null;
+  return { x: left, y: top, width: right - left, height: bottom - top, source };
+}
+
+/** Union of the subject boxes, ignoring malformed entries. */
+export function regionFromSubjects(subjects: SubjectBox[]): FocalRegion | null {
+  const boxes = subjects
+    .map(s => s.box)
+    .filter(b => b && [b.x, b.y, b.width, b.height].every(Number.isFinite) && b.width > 0 && b.height > 0);
+  if (boxes.length === 0) return null;
+
+  return clampRegion(
+    Math.min(...boxes.map(b => b.x)),
+    Math.min(...boxes.map(b => b.y)),
+    Math.max(...boxes.map(b => b.x + b.width)),
+    Math.max(...boxes.map(b => b.y + b.height)),
+    'vision'
+  );
+}
+
+export function regionFromPoint(point: FocusPoint): FocalRegion | null {
+  const half = MANUAL_REGION_SIZE / 2;
+  return clampRegion(point.x - half, point.y - half, point.x + half, point.y + half, 'manual');
+}
+
+/**
+ * Estimate where the subject is from edge density on a small grayscale
+ * copy: detailed areas (faces, people, objects) have strong gradients
+ * against softer backgrounds. Returns null when edges are spread evenly
+ * over the frame and no region stands out.
+ */
+export function estimateSaliency(img: HTMLImageElement): FocalRegion | null {
+  const scale = Math.min(1, SALIENCY_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(3, Math.round(img.naturalWidth * scale));
+  const height = Math.max(3, Math.round(img.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0, width, height);
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.2126 * rgba[i * 4] + 0.7152 * rgba[i * 4 + 1] + 0.0722 * rgba[i * 4 + 2];
+  }
+
+  const energy = new Float32Array(width * height);
+  let total = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = Math.abs(luma[i + 1] - luma[i - 1]) + Math.abs(luma[i + width] - luma[i - width]);
+      energy[i] = value;
+      total += value;
+    }
+  }
+  if (total <= 0) return null;
+
+  // Weighted centroid and spread of the energy
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < energy.length; i++) {
+    cx += (i % width) * energy[i];
+    cy += Math.floor(i / width) * energy[i];
+  }
+  cx /= total;
+  cy /= total;
+
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < energy.length; i++) {
+    vx += ((i % width) - cx) ** 2 * energy[i];
+    vy += (Math.floor(i / width) - cy) ** 2 * energy[i];
+  }
+  const sx = Math.sqrt(vx / total) * 1.5;
+  const sy = Math.sqrt(vy / total) * 1.5;
+
+  const region = clampRegion((cx - sx) / width, (cy - sy) / height, (cx + sx) / width, (cy + sy) / height, 'saliency');
+  if (!region) return null;
+  const area = region.width * region.height;
+  if (area > MAX_SALIENT_AREA) return null;
+
+  let inside = 0;
+  const x0 = Math.floor(region.x * width);
+  const x1 = Math.ceil((region.x + region.width) * width);
+  const y0 = Math.floor(region.y * height);
+  const y1 = Math.ceil((region.y + region.height) * height);
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) inside += energy[y * width + x] ?? 0;
+  }
+
+  return inside / total / area >= MIN_CONCENTRATION ? region : null;
+}
+
+/** The first region the inputs provide, in vision, saliency, manual order. */
+export function resolveFocalRegion(inputs: FocalInputs): FocalRegion | null {
+  return (inputs.subjects && regionFromSubjects(inputs.subjects))
+    || (inputs.image && estimateSaliency(inputs.image))
+    || (inputs.manual && regionFromPoint(inputs.manual))
+    || null;
+}
+
+/** Region in source pixels, for kenBurns' `keep` parameter. */
+export function regionToPixels(region: FocalRegion, imgWidth: number, imgHeight: number): CropRect {
+  return {
+    x: region.x * imgWidth,
+    y: region.y * imgHeight,
+    width: region.width * imgWidth,
+    height: region.height * imgHeight
+  };
+}
+
+/** Centre of the region, used as the motion's focus point. */
+export function regionCenter(region: FocalRegion): FocusPoint {
+  return { x: region.x + region.width / 2, y: region.y + region.height / 2 };
+}
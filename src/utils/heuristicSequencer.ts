@@ -0,0 +1,181 @@
+import { hammingDistance } from './photoScoring';
+
+/**
+ * Local sequencing for when AI ordering is unavailable: the /api/sequence
+ * handler uses it when the provider fails or returns an unusable order,
+ * and UploadFlow when the request itself fails. Photos are split into
+ * scenes at long gaps in capture time; within a scene each next photo is
+ * the nearest unvisited one by colour histogram, difference hash and
+ * capture time, so neighbours flow into each other. The film opens on a
+ * bright shot from early in the first scene and closes on the darkest of
+ * the last scene's final shots. Pure, so it runs in the browser and in the
+ * serverless functions alike; every feature is optional and missing ones
+ * count as neutral.
+ */
+
+export interface SequenceFeatures {
+  /** Capture time in ms since the epoch. */
+  capturedAt?: number;
+  /** RGB histogram over HISTOGRAM_LEVELS³ bins, summing to 1. */
+  histogram?: number[];
+  /** Difference hash as 16 hex digits. */
+  hash?: string;
+  /** Mean luma, 0-1. */
+  brightness?: number;
+}
+
+export interface HeuristicOrder {
+  order: number[];
+  rationale: string;
+}
+
+/** Levels per channel of the colour histogram. */
+export const HISTOGRAM_LEVELS = 4;
+
+// A gap this long between captures starts a new scene
+const SCENE_GAP_MS = 3 * 60 * 60 * 1000;
+const HISTOGRAM_WEIGHT = 0.45;
+const HASH_WEIGHT = 0.3;
+const TIME_WEIGHT = 0.25;
+// Distance term used when either side lacks the feature
+const NEUTRAL = 0.5;
+// Share of a scene considered for the opening and closing shots
+const ARC_SHARE = 1 / 3;
+
+/** 0 for identical colour distributions, 1 for disjoint ones (from the Bhattacharyya coefficient). */
+function histogramDistance(a: number[], b: number[]): number {
+  let coefficient = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) coefficient += Math.sqrt(a[i] * b[i]);
+  return Math.min(1, Math.max(0, 1 - coefficient));
+}
+
+function distance(a: SequenceFeatures, b: SequenceFeatures, span: number): number {
+  const colour = a.histogram && b.histogram ? histogramDistance(a.histogram, b.histogram) : NEUTRAL;
+  const structure = a.hash && b.hash ? hammingDistance(a.hash, b.hash) / 64 : NEUTRAL;
+  const time = a.capturedAt !== undefined && b.capturedAt !== undefined
+    ? (span > 0 ? Math.abs(a.capturedAt - b.capturedAt) / span : 0)
+    : NEUTRAL;
+  return HISTOGRAM_WEIGHT * colour + HASH_WEIGHT * structure + TIME_WEIGHT * time;
+}
+
+/**
+ * Dated items split at long capture gaps, in time order. Undated items
+ * join the scene they look most like, or the last scene when nothing can
+ * be compared.
+ */
+function scenesOf(features: SequenceFeatures[]): number[][] {
+  const indices = features.map((_, i) => i);
+  const dated = indices
+    .filter(i => features[i].capturedAt !== undefined)
+    .sort((a, b) => features[a].capturedAt! - features[b].capturedAt! || a - b);
+  const undated = indices.filter(i => features[i].capturedAt === undefined);
+  if (dated.length === 0) return [undated];
+
+  const scenes: number[][] = [[dated[0]]];
+  for (let k = 1; k < dated.length; k++) {
+    const gap = features[dated[k]].capturedAt! - features[dated[k - 1]].capturedAt!;
+    if (gap > SCENE_GAP_MS) scenes.push([]);
+    scenes[scenes.length - 1].push(dated[k]);
+  }
+
+  for (const i of undated) {
+    let best = scenes.length - 1;
+    let bestDistance = Infinity;
+    scenes.forEach((scene, s) => {
+      const mean = scene.reduce((sum, j) => sum + distance(features[i], features[j], 0), 0) / scene.length;
+      if (mean < bestDistance) {
+        best = s;
+        bestDistance = mean;
+      }
+    });
+    scenes[best].push(i);
+  }
+  return scenes;
+}
+
+/** Greedy nearest-neighbour path through `scene` from `start`; ties go to the earlier upload. */
+function nearestNeighbourPath(scene: number[], start: number, features: SequenceFeatures[]): number[] {
+  const times = scene.map(i => features[i].capturedAt).filter((t): t is number => t !== undefined);
+  const span = times.length > 1 ? Math.max(...times) - Math.min(...times) : 0;
+
+  const path = [start];
+  const remaining = new Set(scene.filter(i => i !== start));
+  while (remaining.size > 0) {
+    const current = path[path.length - 1];
+    let next = -1;
+    let nextDistance = Infinity;
+    for (const candidate of remaining) {
+      const d = distance(features[current], features[candidate], span);
+      if (d < nextDistance || (d === nextDistance && candidate < next)) {
+        next = candidate;
+        nextDistance = d;
+      }
+    }
+    path.push(next);
+    remaining.delete(next);
+  }
+  return path;
+}
+
+/** How many items at either end of a scene the brightness arc may draw from. */
+function arcWindow(length: number): number {
+  return Math.max(1, Math.ceil(length * ARC_SHARE));
+}
+
+/**
+ * Order `features` (one entry per item, in upload order) without any
+ * model, and say how. Always returns a full permutation.
+ */
+export function heuristicOrder(features: SequenceFeatures[]): HeuristicOrder {
+  if (features.length === 0) return { order: [], rationale: 'Heuristic order: nothing to arrange.' };
+
+  const scenes = scenesOf(features);
+  const datedCount = features.filter(f => f.capturedAt !== undefined).length;
+  const compared = features.some(f => f.histogram || f.hash);
+  let opened = false;
+  let closed = false;
+
+  const paths = scenes.map((scene, s) => {
+    // Scenes start from their earliest shot; scenesOf already sorted them
+    let start = scene[0];
+    if (s === 0) {
+      // The brightest of the first shots makes the opening
+      const window = scene.slice(0, arcWindow(scene.length));
+      const bright = window.filter(i => features[i].brightness !== undefined);
+      if (bright.length > 0) {
+        start = bright.reduce((best, i) => features[i].brightness! > features[best].brightness! ? i : best);
+        opened = true;
+      }
+    }
+
+    const path = nearestNeighbourPath(scene, start, features);
+    if (s === scenes.length - 1 && path.length >= 2) {
+      // The darkest of the final shots closes, unless it is the opening
+      const from = Math.max(1, path.length - arcWindow(path.length));
+      const tail = path.slice(from).filter(i => features[i].brightness !== undefined);
+      if (tail.length > 0) {
+        const darkest = tail.reduce((best, i) => features[i].brightness! < features[best].brightness! ? i : best);
+        path.splice(path.indexOf(darkest), 1);
+        path.push(darkest);
+        closed = true;
+      }
+    }
+    return path;
+  });
+
+  const grouping = datedCount > 0
+    ? `${scenes.length} ${scenes.length === 1 ? 'scene' : 'scenes'} by capture time (${datedCount} of ${features.length} items dated)`
+    : 'one scene, as no capture times were available';
+  const flow = compared ? 'every shot leads to the one closest in colour and composition'
+    : datedCount > 0 ? 'shots follow capture time'
+    : 'shots keep their upload order';
+  const arc = [
+    opened ? 'opens on a bright early shot' : '',
+    closed ? 'closes on the darkest of the final shots' : ''
+  ].filter(Boolean).join(' and ');
+
+  return {
+    order: paths.flat(),
+    rationale: `Heuristic order: ${grouping}; within ${scenes.length === 1 ? 'it' : 'each'}, ${flow}.${arc ? ` It ${arc}.` : ''}`
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * Ken Burns motion planning.
+ * A clip's motion is described as a start and end crop rectangle in source
+ * image pixels. Every crop lies inside the image, so drawing it to fill the
+ * canvas can never reveal the canvas edge.
+ */
+
+export type MotionEffect = 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right' | 'static';
+
+export type MotionEasing = 'linear' | 'easeInOutSine' | 'easeInOutCubic' | 'easeOutQuad';
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Normalised (0-1) point in the source image the motion should favour. */
+export interface FocusPoint {
+  x: number;
+  y: number;
+}
+
+export interface MotionOptions {
+  /** Extra zoom applied over a clip, e.g. 0.1 = 10% closer at the tight end. */
+  intensity: number;
+  easing: MotionEasing;
+}
+
+export interface ClipMotion {
+  from: CropRect;
+  to: CropRect;
+  easing: MotionEasing;
+}
+
+export const DEFAULT_MOTION: MotionOptions = {
+  intensity: 0.1,
+  easing: 'easeInOutSine'
+};
+
+// Faces and horizons tend to sit above the geometric centre
+export const DEFAULT_FOCUS: FocusPoint = { x: 0.5, y: 0.4 };
+
+const FRAME_CENTER: FocusPoint = { x: 0.5, y: 0.5 };
+
+const EASINGS: Record<MotionEasing, (t: number) => number> = {
+  linear: t => t,
+  easeInOutSine: t => -(Math.cos(Math.PI * t) - 1) / 2,
+  easeInOutCubic: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeOutQuad: t => 1 - (1 - t) * (1 - t)
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Positions along one axis where a crop of `size` stays inside the image
+ * and, where it is large enough, fully contains the kept span.
+ */
+function allowedRange(size: number, imgSize: number, keepStart?: number, keepSize?: number): [number, number] {
+  if (keepStart === undefined || keepSize === undefined) return [0, imgSize - size];
+  const low = Math.max(0, keepStart + keepSize - size);
+  const high = Math.min(imgSize - size, keepStart);
+  if (low <= high) return [low, high];
+  // The region is bigger than the crop: centre on it instead
+  const centered = clamp(keepStart + keepSize / 2 - size / 2, 0, imgSize - size);
+  return [centered, centered];
+}
+
+/**
+ * Largest crop of `aspect` (width / height) inside the image, shrunk by
+ * `zoom` and positioned so `focus` lands as close to `anchor` (a normalised
+ * point in the output frame) as the image bounds allow. With `keep` (a
+ * subject region in source pixels) the zoom is limited so the region still
+ * fits, and the crop is never positioned to cut into it.
+ */
+export function coverCrop(
+  imgWidth: number,
+  imgHeight: number,
+  aspect: number,
+  focus: FocusPoint = DEFAULT_FOCUS,
+  zoom = 1,
+  anchor: FocusPoint = FRAME_CENTER,
+  keep?: CropRect
+): CropRect {
+  let width = imgWidth;
+  let height = imgWidth / aspect;
+  if (height > imgHeight) {
+    height = imgHeight;
+    width = imgHeight * aspect;
+  }
+
+  const maxZoom = keep ? Math.max(1, Math.min(width / keep.width, height / keep.height)) : Infinity;
+  const scale = clamp(zoom, 1, maxZoom);
+  width /= scale;
+  height /= scale;
+
+  const [minX, maxX] = allowedRange(width, imgWidth, keep?.x, keep?.width);
+  const [minY, maxY] = allowedRange(height, imgHeight, keep?.y, keep?.height);
+  const x = clamp(focus.x * imgWidth - anchor.x * width, minX, maxX);
+  const y = clamp(focus.y * imgHeight - anchor.y * height, minY, maxY);
+  return { x, y, width, height };
+}
+
+/**
+ * Start and end crops for an effect. Zooms travel between the full cover
+ * crop and a tighter crop around the focus point; pans travel across the
+ * slack of a slightly zoomed crop and finish on the focus point. A `keep`
+ * region is inside both the start and end crops whenever it fits the frame.
+ */
+export function planMotion(
+  imgWidth: number,
+  imgHeight: number,
+  aspect: number,
+  effect: MotionEffect,
+  options: MotionOptions = DEFAULT_MOTION,
+  focus: FocusPoint = DEFAULT_FOCUS,
+  anchor: FocusPoint = FRAME_CENTER,
+  keep?: CropRect
+): ClipMotion {
+  const zoom = 1 + Math.max(0, options.intensity);
+  const wide = coverCrop(imgWidth, imgHeight, aspect, focus, 1, anchor, keep);
+  const tight = coverCrop(imgWidth, imgHeight, aspect, focus, zoom, anchor, keep);
+
+  switch (effect) {
+    case 'zoom-in':
+      return { from: wide, to: tight, easing: options.easing };
+    case 'zoom-out':
+      return { from: tight, to: wide, easing: options.easing };
+    case 'pan-left':
+    case 'pan-right': {
+      const end = tight;
+      const [minX, maxX] = allowedRange(end.width, imgWidth, keep?.x, keep?.width);
+      const travel = Math.min(imgWidth - end.width, end.width * options.intensity * 2);
+      // pan-left moves the view leftwards, so it starts to the right of the focus
+      const direction = effect === 'pan-left' ? 1 : -1;
+      const startX = clamp(end.x + direction * travel, minX, maxX);
+      if (Math.abs(startX - end.x) < travel / 2) {
+        // Focus is pinned against an edge; start on it and pan away instead
+        const endX = clamp(end.x - direction * travel, minX, maxX);
+        return { from: end, to: { ...end, x: endX }, easing: options.easing };
+      }
+      return { from: { ...end, x: startX }, to: end, easing: options.easing };
+    }
+    default:
+      return { from: wide, to: wide, easing: options.easing };
+  }
+}
+
+/**
+ * Crop at `progress` (0-1). The centre moves linearly and the size changes
+ * geometrically, so zoom speed looks constant; the result stays inside the
+ * image because it is never larger than the linear blend of two inside crops.
+ */
+export function cropAt(motion: ClipMotion, progress: number): CropRect {
+  const t = EASINGS[motion.easing](clamp(progress, 0, 1));
+  const { from, to } = motion;
+
+  const width = from.width * Math.pow(to.width / from.width, t);
+  const height = from.height * Math.pow(to.height / from.height, t);
+  const centerX = from.x + from.width / 2 + (to.x + to.width / 2 - from.x - from.width / 2) * t;
+  const centerY = from.y + from.height / 2 + (to.y + to.height / 2 - from.y - from.height / 2) * t;
+
+  return { x: centerX - width / 2, y: centerY - height / 2, width, height };
+}
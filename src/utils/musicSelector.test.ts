@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+function track(id: string) {
+  return {
+    id,
+    file: `${id}.mp3`,
+    moods: ['warm'],
+    energy: 'medium',
+    tempo: 'medium',
+    hasDrop: false,
+    intro: 'soft',
+    outro: 'fade',
+    attributionRequired: false,
+    source: 'local',
+    recommendedStartSec: 0
+  };
+}
+
+/** Serve the manifest and answer each track URL with `respond`. */
+function serve(tracks: ReturnType<typeof track>[], respond: (url: string, init?: RequestInit) => Response) {
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) =>
+    url.endsWith('/manifest.json') ? Response.json({ tracks }) : respond(url, init)
+  ));
+}
+
+async function availableIds(): Promise<string[]> {
+  // The available tracks are cached per module instance
+  vi.resetModules();
+  const { loadAvailableTracks } = await import('./musicSelector');
+  return (await loadAvailableTracks()).map(t => t.id);
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('loadAvailableTracks', () => {
+  it('keeps tracks served as audio', async () => {
+    serve([track('present')], () => new Response(null, { headers: { 'Content-Type': 'audio/mpeg' } }));
+    expect(await availableIds()).toEqual(['present']);
+  });
+
+  it('drops tracks answered by the HTML fallback', async () => {
+    serve([track('present'), track('missing')], url =>
+      url.includes('missing')
+        ? new Response('<!doctype html>', { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+        : new Response(null, { headers: { 'Content-Type': 'audio/mpeg' } })
+    );
+    expect(await availableIds()).toEqual(['present']);
+  });
+
+  it('checks the content type of the range probe when HEAD is rejected', async () => {
+    serve([track('present'), track('missing')], (url, init) => {
+      if (init?.method === 'HEAD') return new Response(null, { status: 405 });
+      return url.includes('missing')
+        ? new Response('<!doctype html>', { headers: { 'Content-Type': 'text/html' } })
+        : new Response(new Uint8Array(1), { status: 206, headers: { 'Content-Type': 'audio/mpeg' } });
+    });
+    expect(await availableIds()).toEqual(['present']);
+  });
+
+  it('drops tracks that 404', async () => {
+    serve([track('missing')], () => new Response('Not found', { status: 404 }));
+    expect(await availableIds()).toEqual([]);
+  });
+});
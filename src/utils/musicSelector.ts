@@ -0,0 +1,182 @@
+/**
+ * Mood-aware music selection from assets/music_pack/manifest.json.
+ * Tracks are scored against the memory's context text and photo moods;
+ * manifest entries whose audio file is missing are dropped up front.
+ */
+
+export const MUSIC_PACK_BASE = '/assets/music_pack';
+
+export interface MusicTrackInfo {
+  id: string;
+  file: string;
+  moods: string[];
+  energy: 'low' | 'medium' | 'high';
+  tempo: 'slow' | 'medium' | 'fast';
+  hasDrop: boolean;
+  intro: string;
+  outro: string;
+  attributionRequired: boolean;
+  source: string;
+  recommendedStartSec: number;
+}
+
+export interface RankedTrack {
+  track: MusicTrackInfo;
+  url: string;
+  score: number;
+  /** Moods that matched, for explaining the pick in the UI. */
+  matchedMoods: string[];
+}
+
+export interface MusicCriteria {
+  context?: string;
+  photoMoods?: string[];
+}
+
+// Words people write about a memory, mapped to the manifest's mood vocabulary
+const KEYWORD_MOODS: Record<string, string[]> = {
+  wedding: ['romantic', 'tender', 'warm', 'uplifting'],
+  anniversary: ['romantic', 'tender', 'nostalgic'],
+  love: ['romantic', 'tender', 'warm'],
+  proposal: ['romantic', 'tender', 'uplifting'],
+  birthday: ['playful', 'uplifting', 'light'],
+  party: ['groovy', 'playful', 'light'],
+  celebration: ['uplifting', 'playful', 'hopeful'],
+  celebrating: ['uplifting', 'playful', 'hopeful'],
+  graduation: ['uplifting', 'hopeful', 'inspiring'],
+  travel: ['adventure', 'uplifting', 'cinematic', 'open'],
+  trip: ['adventure', 'uplifting', 'open'],
+  adventure: ['adventure', 'cinematic', 'uplifting'],
+  road: ['adventure', 'open'],
+  beach: ['calm', 'open', 'light'],
+  nature: ['calm', 'open', 'contemplative'],
+  hike: ['open', 'adventure', 'calm'],
+  mountains: ['open', 'cinematic', 'adventure'],
+  weekend: ['calm', 'light', 'warm'],
+  friends: ['warm', 'playful', 'light'],
+  family: ['warm', 'nostalgic', 'tender'],
+  baby: ['tender', 'warm', 'light'],
+  kids: ['playful', 'warm', 'light'],
+  childhood: ['nostalgic', 'warm', 'reflective'],
+  memorial: ['reflective', 'melancholic', 'emotional', 'tender'],
+  funeral: ['reflective', 'melancholic', 'emotional'],
+  remembering: ['reflective', 'nostalgic', 'emotional'],
+  miss: ['nostalgic', 'melancholic', 'reflective'],
+  goodbye: ['melancholic', 'emotional', 'reflective'],
+  year: ['nostalgic', 'reflective', 'hopeful'],
+  quiet: ['quiet', 'calm', 'reflective'],
+  peaceful: ['calm', 'contemplative'],
+  happy: ['uplifting', 'light', 'playful'],
+  joy: ['uplifting', 'light', 'playful'],
+  sad: ['melancholic', 'emotional'],
+  epic: ['cinematic', 'inspiring']
+};
+
+const HIGH_ENERGY_MOODS = new Set(['playful', 'groovy', 'adventure', 'uplifting', 'inspiring']);
+const LOW_ENERGY_MOODS = new Set(['calm', 'quiet', 'reflective', 'melancholic', 'contemplative', 'tender']);
+const ENERGY_LEVEL: Record<MusicTrackInfo['energy'], number> = { low: 0, medium: 1, high: 2 };
+
+let availableTracksPromise: Promise<MusicTrackInfo[]> | null = null;
+
+export function trackUrl(track: MusicTrackInfo): string {
+  return `${MUSIC_PACK_BASE}/${encodeURIComponent(track.file)}`;
+}
+
+/** End-card credit line; the manifest has no titles, so the file name stands in. */
+export function trackCredit(track: MusicTrackInfo): string {
+  const title = track.file.replace(/\.[a-z0-9]+$/i, '').replace(/[_-]+/g, ' ').trim();
+  return track.source && track.source !== 'local' ? `Music: ${title} (${track.source})` : `Music: ${title}`;
+}
+
+// The SPA fallback answers a missing file with 200 and index.html, so only audio counts
+function isAudio(response: Response): boolean {
+  return response.ok && (response.headers.get('Content-Type') ?? '').toLowerCase().startsWith('audio/');
+}
+
+async function fileExists(url: string): Promise<boolean> {
+  try {
+    const head = await fetch(url, { method: 'HEAD' });
+    if (head.status !== 405) return isAudio(head);
+    // Some static hosts reject HEAD; fetch a single byte instead
+    const probe = await fetch(url, { headers: { Range: 'bytes=0-0' } });
+    return isAudio(probe);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Manifest tracks whose audio file is actually served. Cached for the
+ * session; a failed load is not cached so it can be retried.
+ */
+export function loadAvailableTracks(): Promise<MusicTrackInfo[]> {
+  if (!availableTracksPromise) {
+    availableTracksPromise = (async () => {
+      const response = await fetch(`${MUSIC_PACK_BASE}/manifest.json`);
+      if (!response.ok) {
+        throw new Error(`Music manifest fetch failed (${response.status})`);
+      }
+      const manifest = await response.json();
+      const tracks: MusicTrackInfo[] = Array.isArray(manifest?.tracks) ? manifest.tracks : [];
+      const exists = await Promise.all(tracks.map(track => fileExists(trackUrl(track))));
+      const available = tracks.filter((_, i) => exists[i]);
+      console.log(`[MUSIC] ${available.length}/${tracks.length} manifest tracks available`);
+      return available;
+    })().catch(err => {
+      availableTracksPromise = null;
+      throw err;
+    });
+  }
+  return availableTracksPromise;
+}
+
+function wantedMoods(criteria: MusicCriteria): Map<string, number> {
+  const wanted = new Map<string, number>();
+  const add = (mood: string, weight: number) => wanted.set(mood, (wanted.get(mood) ?? 0) + weight);
+
+  const words = (criteria.context ?? '').toLowerCase().match(/[a-z]+/g) ?? [];
+  for (const word of words) {
+    KEYWORD_MOODS[word]?.forEach(mood => add(mood, 1));
+    // Mood words used directly ("a nostalgic trip")
+    add(word, 0.5);
+  }
+
+  // Photo moods are free text from vision analysis; weight them below the
+  // user's own words since there is one per photo
+  const photoWeight = criteria.photoMoods?.length ? 1 / criteria.photoMoods.length : 0;
+  for (const mood of criteria.photoMoods ?? []) {
+    for (const word of mood.toLowerCase().match(/[a-z]+/g) ?? []) {
+      KEYWORD_MOODS[word]?.forEach(m => add(m, photoWeight));
+      add(word, photoWeight);
+    }
+  }
+
+  return wanted;
+}
+
+/**
+ * Rank tracks best-first. Ties keep manifest order, so with no context the
+ * result is stable and favours hand-curated entries with specific moods.
+ */
+export function rankTracks(tracks: MusicTrackInfo[], criteria: MusicCriteria = {}): RankedTrack[] {
+  const wanted = wantedMoods(criteria);
+
+  let energyVotes = 0;
+  for (const [mood, weight] of wanted) {
+    if (HIGH_ENERGY_MOODS.has(mood)) energyVotes += weight;
+    if (LOW_ENERGY_MOODS.has(mood)) energyVotes -= weight;
+  }
+  const targetEnergy = energyVotes > 0.5 ? 1 : 0;
+
+  return tracks
+    .map((track, index) => {
+      const matchedMoods = track.moods.filter(mood => wanted.has(mood));
+      let score = matchedMoods.reduce((sum, mood) => sum + (wanted.get(mood) ?? 0), 0);
+      score -= Math.abs(ENERGY_LEVEL[track.energy] - targetEnergy) * 0.5;
+      // Auto-generated entries only carry the placeholder neutral mood
+      if (track.moods.includes('neutral')) score -= 0.25;
+      return { track, url: trackUrl(track), score, matchedMoods, index };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ track, url, score, matchedMoods }) => ({ track, url, score, matchedMoods }));
+}
@@ -0,0 +1,165 @@
+import type { MotionEffect } from './kenBurns';
+import type { RevealStyle } from './typography';
+import type { PlanTypography } from '../types/plan';
+
+/**
+ * Narrative templates: the shape of a memory video declared as data. Each
+ * template lists the phases of its arc (how many photos each takes, how
+ * long they stay and how they move), the transition mix between them and
+ * the styling of its title and captions. buildNarrative fills the phases
+ * in order with the selected photos, so a template's slot count is also the
+ * most photos it uses.
+ */
+
+export type TemplateName = 'classic' | 'birthday' | 'travel' | 'wedding' | 'memorial' | 'year-in-review';
+
+export interface TemplatePhase {
+  /** Label recorded on each clip, for inspection. */
+  phase: string;
+  /** Photo slots in this phase. */
+  count: number;
+  avgDuration: number;
+  /** Random spread added to avgDuration, in seconds: [low, high]. */
+  jitter: [number, number];
+  /** Shortest and longest a photo may stay on screen once fitted to music or a target length. */
+  limits: [number, number];
+  /** Motion for successive photos, repeated as needed. */
+  effects: MotionEffect[];
+}
+
+/** How a template departs from the rule-based transition choices. */
+export interface TransitionMix {
+  /** Stands in for hard cuts wherever the phase allows it; 'hard_cut' keeps them. */
+  cut: string;
+  /** Swapped in, in rotation, for this share of the cuts that remain. */
+  accents: string[];
+  accentShare: number;
+  /** Never used by this template; picks of these become the cut instead. */
+  avoid: string[];
+  /** Scale on transition and hold lengths; above 1 lingers. */
+  pace: number;
+}
+
+export interface NarrativeTemplate {
+  label: string;
+  phases: TemplatePhase[];
+  transitions: TransitionMix;
+  typography: PlanTypography;
+  titleReveal: RevealStyle;
+  endCardReveal: RevealStyle;
+}
+
+export const DEFAULT_TEMPLATE: TemplateName = 'classic';
+
+const NO_MIX: TransitionMix = { cut: 'hard_cut', accents: [], accentShare: 0, avoid: [], pace: 1 };
+
+const TEMPLATES: Record<TemplateName, NarrativeTemplate> = {
+  // Slow push-ins to open, drifting pans through the middle, and
+  // pull-backs to let the ending breathe
+  classic: {
+    label: 'Classic',
+    phases: [
+      { phase: 'arrival', count: 3, avgDuration: 4, jitter: [-0.5, 0.5], limits: [2, 6.5], effects: ['zoom-in'] },
+      { phase: 'recognition', count: 5, avgDuration: 4, jitter: [-0.5, 0.5], limits: [2, 6.5], effects: ['pan-right', 'zoom-in', 'pan-left'] },
+      { phase: 'intimacy', count: 7, avgDuration: 3.5, jitter: [-0.5, 0.5], limits: [2, 6], effects: ['zoom-in', 'pan-left', 'zoom-in', 'pan-right'] },
+      { phase: 'pause', count: 4, avgDuration: 5, jitter: [0, 2], limits: [3, 8], effects: ['zoom-out', 'static'] },
+      { phase: 'trace', count: 3, avgDuration: 5, jitter: [0, 2], limits: [3, 8], effects: ['zoom-out'] }
+    ],
+    transitions: NO_MIX,
+    typography: {},
+    titleReveal: 'rise',
+    endCardReveal: 'fade'
+  },
+  birthday: {
+    label: 'Birthday',
+    phases: [
+      { phase: 'arrival', count: 2, avgDuration: 3, jitter: [-0.3, 0.3], limits: [1.5, 5], effects: ['zoom-in'] },
+      { phase: 'party', count: 9, avgDuration: 2.5, jitter: [-0.3, 0.5], limits: [1.5, 4], effects: ['pan-right', 'zoom-in', 'pan-left', 'zoom-in'] },
+      { phase: 'candles', count: 4, avgDuration: 3, jitter: [0, 1], limits: [1.5, 5], effects: ['zoom-in', 'static'] },
+      { phase: 'wind-down', count: 3, avgDuration: 4, jitter: [0, 1], limits: [2, 6.5], effects: ['zoom-out'] }
+    ],
+    transitions: { cut: 'hard_cut', accents: ['whip_pan_right', 'dip_to_white', 'whip_pan_left'], accentShare: 0.35, avoid: ['film_burn'], pace: 0.8 },
+    typography: { title: { font: 'sans', color: '#ffd166', uppercase: true }, caption: { font: 'sans', color: '#fff4d6' } },
+    titleReveal: 'typewriter',
+    endCardReveal: 'rise'
+  },
+  travel: {
+    label: 'Travel',
+    phases: [
+      { phase: 'departure', count: 3, avgDuration: 3.5, jitter: [-0.5, 0.5], limits: [2, 6], effects: ['zoom-in', 'pan-right'] },
+      { phase: 'journey', count: 10, avgDuration: 3, jitter: [-0.5, 0.5], limits: [1.5, 5], effects: ['pan-right', 'pan-right', 'zoom-in', 'pan-left'] },
+      { phase: 'highlights', count: 5, avgDuration: 3.5, jitter: [0, 1], limits: [2, 6], effects: ['zoom-in', 'zoom-out'] },
+      { phase: 'homecoming', count: 3, avgDuration: 4.5, jitter: [0, 1.5], limits: [2.5, 7.5], effects: ['zoom-out'] }
+    ],
+    transitions: { cut: 'hard_cut', accents: ['wipe_left', 'whip_pan_right', 'wipe_up'], accentShare: 0.3, avoid: [], pace: 0.9 },
+    typography: { title: { font: 'sans', uppercase: true }, caption: { font: 'sans' } },
+    titleReveal: 'wipe',
+    endCardReveal: 'wipe'
+  },
+  wedding: {
+    label: 'Wedding',
+    phases: [
+      { phase: 'preparations', count: 4, avgDuration: 4, jitter: [-0.5, 0.5], limits: [2, 6.5], effects: ['zoom-in', 'pan-left'] },
+      { phase: 'ceremony', count: 6, avgDuration: 4.5, jitter: [0, 1], limits: [2.5, 7.5], effects: ['zoom-in', 'static'] },
+      { phase: 'celebration', count: 8, avgDuration: 3, jitter: [-0.5, 0.5], limits: [1.5, 5], effects: ['pan-right', 'zoom-in', 'pan-left'] },
+      { phase: 'farewell', count: 3, avgDuration: 5, jitter: [0, 2], limits: [3, 8], effects: ['zoom-out'] }
+    ],
+    transitions: { cut: 'match_dissolve', accents: ['light_leak'], accentShare: 0.25, avoid: ['whip_pan_left', 'whip_pan_right', 'film_burn'], pace: 1.2 },
+    typography: { title: { font: 'serif', color: '#f5e6c8', scale: 1.1 }, caption: { font: 'serif', color: '#f5e6c8' } },
+    titleReveal: 'fade',
+    endCardReveal: 'fade'
+  },
+  // Long holds and dissolves only; nothing that jolts
+  memorial: {
+    label: 'Memorial',
+    phases: [
+      { phase: 'early-years', count: 5, avgDuration: 5, jitter: [0, 1], limits: [3, 8], effects: ['zoom-in'] },
+      { phase: 'life', count: 10, avgDuration: 4.5, jitter: [0, 1], limits: [2.5, 7.5], effects: ['zoom-in', 'pan-right', 'zoom-in', 'pan-left'] },
+      { phase: 'reflection', count: 4, avgDuration: 6, jitter: [0, 1.5], limits: [3.5, 10], effects: ['zoom-out', 'static'] },
+      { phase: 'farewell', count: 2, avgDuration: 7, jitter: [0, 1.5], limits: [4, 11.5], effects: ['zoom-out'] }
+    ],
+    transitions: {
+      cut: 'match_dissolve',
+      accents: [],
+      accentShare: 0,
+      avoid: ['whip_pan_left', 'whip_pan_right', 'cross_zoom', 'light_leak', 'film_burn', 'dip_to_white'],
+      pace: 1.4
+    },
+    typography: { title: { font: 'serif', scale: 0.9 }, caption: { font: 'serif', color: 'rgba(255, 255, 255, 0.9)' } },
+    titleReveal: 'fade',
+    endCardReveal: 'fade'
+  },
+  'year-in-review': {
+    label: 'Year in Review',
+    phases: [
+      { phase: 'opening', count: 2, avgDuration: 3, jitter: [-0.3, 0.3], limits: [1.5, 5], effects: ['zoom-in'] },
+      { phase: 'months', count: 24, avgDuration: 2.5, jitter: [-0.3, 0.3], limits: [1.5, 4], effects: ['pan-right', 'zoom-in', 'pan-left', 'zoom-out'] },
+      { phase: 'best-moments', count: 6, avgDuration: 3, jitter: [0, 0.5], limits: [1.5, 5], effects: ['zoom-in'] },
+      { phase: 'closing', count: 2, avgDuration: 4, jitter: [0, 1], limits: [2, 6.5], effects: ['zoom-out'] }
+    ],
+    transitions: { cut: 'hard_cut', accents: ['wipe_left', 'cross_zoom', 'wipe_right'], accentShare: 0.4, avoid: [], pace: 0.8 },
+    typography: { title: { font: 'sans', uppercase: true, scale: 1.15 }, caption: { font: 'sans' } },
+    titleReveal: 'rise',
+    endCardReveal: 'rise'
+  }
+};
+
+export const TEMPLATE_NAMES = Object.keys(TEMPLATES) as TemplateName[];
+
+export function getTemplate(name: TemplateName = DEFAULT_TEMPLATE): NarrativeTemplate {
+  return TEMPLATES[name] ?? TEMPLATES[DEFAULT_TEMPLATE];
+}
+
+export function templateLabel(name: TemplateName): string {
+  return TEMPLATES[name].label;
+}
+
+/** Most photos the template places, one per slot. */
+export function templateCapacity(template: NarrativeTemplate): number {
+  return template.phases.reduce((sum, phase) => sum + phase.count, 0);
+}
+
+/** The template's phases repeated once per photo slot, in fill order. */
+export function templateSlots(template: NarrativeTemplate): TemplatePhase[] {
+  return template.phases.flatMap(phase => Array.from({ length: phase.count }, () => phase));
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { distribute, photoCountFor, type DurationBounds } from './pacing';
+
+const FRAME_SECONDS = 1 / 30;
+const BOUNDS: DurationBounds[] = [{ min: 2, max: 4 }, { min: 2, max: 4 }, { min: 1, max: 5 }];
+
+function sum(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0);
+}
+
+function expectWithinBounds(values: number[], bounds: DurationBounds[]) {
+  values.forEach((value, i) => {
+    expect(value).toBeGreaterThanOrEqual(bounds[i].min);
+    expect(value).toBeLessThanOrEqual(bounds[i].max);
+  });
+}
+
+describe('distribute', () => {
+  it('hits a reachable total within one frame, keeping every bound', () => {
+    for (const total of [6.5, 10, 11.97]) {
+      const { values, residual } = distribute([3, 3, 3], BOUNDS, total);
+      expect(Math.abs(residual)).toBeLessThan(FRAME_SECONDS);
+      expect(Math.abs(sum(values) - total)).toBeLessThan(FRAME_SECONDS);
+      expectWithinBounds(values, BOUNDS);
+    }
+  });
+
+  it('stops at the bounds and reports what is left when the total is out of reach', () => {
+    const over = distribute([3, 3, 3], BOUNDS, 16);
+    expect(over.values).toEqual([4, 4, 5]);
+    expect(over.residual).toBeCloseTo(3);
+
+    const under = distribute([3, 3, 3], BOUNDS, 3);
+    expect(under.values).toEqual([2, 2, 1]);
+    expect(under.residual).toBeCloseTo(-2);
+  });
+});
+
+describe('photoCountFor', () => {
+  // One photo can fill 2-10s; a second adds exactly 1s
+  const slots = [{ min: 2, max: 10, planned: 2 }, { min: 1, max: 1, planned: 1 }];
+
+  it('prefers a count that can reach the time over one that plans closer but cannot', () => {
+    // Two photos plan 3s, nearer 2.8s, but cannot go below 3s
+    expect(photoCountFor(slots, 2.8, 2)).toBe(1);
+  });
+
+  it('picks the nearest count when none can reach the time', () => {
+    expect(photoCountFor(slots, 20, 2)).toBe(2);
+    expect(photoCountFor(slots, 1, 2)).toBe(1);
+  });
+
+  it('never uses more photos than are available', () => {
+    expect(photoCountFor(slots, 20, 1)).toBe(1);
+  });
+});
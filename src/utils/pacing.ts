@@ -0,0 +1,82 @@
+/**
+ * Target duration solving. When the user asks for a set length, planVideo
+ * picks how many photos to use from the template's slot lengths, then fits
+ * clip and transition lengths so the whole video, title and end card
+ * included, lands on the target frame. Every clip stays within its phase's
+ * time-on-screen limits; transitions may stretch or shrink within
+ * TRANSITION_SCALE_RANGE of their chosen length.
+ */
+
+/** Length in seconds, or 'song' for the chosen track's length from its start point. */
+export type TargetDuration = 15 | 30 | 60 | 90 | 'song';
+
+export interface DurationBounds {
+  min: number;
+  max: number;
+}
+
+/** Planned length and bounds of one template slot. */
+export interface PacingSlot extends DurationBounds {
+  planned: number;
+}
+
+export const TARGET_DURATIONS: TargetDuration[] = [15, 30, 60, 90, 'song'];
+
+export const TRANSITION_SCALE_RANGE: [number, number] = [0.5, 1.5];
+
+export function targetLabel(target: TargetDuration): string {
+  return target === 'song' ? 'Match song length' : `${target} seconds`;
+}
+
+/**
+ * How many photos to use for `availableSeconds` of clips, filling `slots`
+ * in order: among counts whose limits can reach the time, the one whose
+ * planned lengths come closest. When none can, the count that gets
+ * nearest.
+ */
+export function photoCountFor(slots: PacingSlot[], availableSeconds: number, maxCount: number): number {
+  let best = 0;
+  let bestScore = Infinity;
+  let min = 0;
+  let max = 0;
+  let planned = 0;
+
+  for (let count = 1; count <= Math.min(maxCount, slots.length); count++) {
+    const slot = slots[count - 1];
+    min += slot.min;
+    max += slot.max;
+    planned += slot.planned;
+    const reachable = min <= availableSeconds && availableSeconds <= max;
+    // Unreachable counts rank behind every reachable one
+    const score = reachable
+      ? Math.abs(planned - availableSeconds)
+      : 1e6 + Math.max(min - availableSeconds, availableSeconds - max);
+    if (score < bestScore) {
+      best = count;
+      bestScore = score;
+    }
+  }
+
+  return Math.max(1, best);
+}
+
+/**
+ * Move `values` toward summing to `total` without leaving their bounds.
+ * Each value takes a share of the difference in proportion to its room in
+ * that direction, so in one pass the sum is exact whenever the bounds
+ * allow it and otherwise every value ends at its bound. Returns the new
+ * values and what is still missing (positive) or over (negative).
+ */
+export function distribute(values: number[], bounds: DurationBounds[], total: number): { values: number[]; residual: number } {
+  const sum = values.reduce((a, b) => a + b, 0);
+  const difference = total - sum;
+  if (difference === 0) return { values: [...values], residual: 0 };
+
+  const room = values.map((value, i) => Math.max(0, difference > 0 ? bounds[i].max - value : value - bounds[i].min));
+  const totalRoom = room.reduce((a, b) => a + b, 0);
+  if (totalRoom === 0) return { values: [...values], residual: difference };
+
+  const share = Math.min(1, Math.abs(difference) / totalRoom);
+  const next = values.map((value, i) => value + Math.sign(difference) * room[i] * share);
+  return { values: next, residual: total - next.reduce((a, b) => a + b, 0) };
+}
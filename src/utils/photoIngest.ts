@@ -0,0 +1,194 @@
+import exifr from 'exifr';
+import { ingestVideo, isVideo, pairLivePhotos, type VideoDetails } from './videoIngest';
+
+/**
+ * Photo ingestion: every upload passes through here before it is previewed,
+ * sent for sequencing or drawn. HEIC/HEIF photos are converted to JPEG so
+ * browsers can decode them, EXIF orientation is baked into the pixels where
+ * the browser would not apply it, and capture time, GPS and camera details
+ * are read for chronological ordering and end cards. Video clips and Live
+ * Photos are handed to videoIngest.
+ */
+
+export interface PhotoMetadata {
+  /** EXIF orientation, 1-8. */
+  orientation?: number;
+  /** Capture time in ms since the epoch (EXIF DateTimeOriginal). */
+  capturedAt?: number;
+  gps?: { latitude: number; longitude: number };
+  camera?: { make?: string; model?: string };
+}
+
+export interface IngestedPhoto {
+  /** A file the browser can decode, upright; the original when no conversion was needed. */
+  file: File;
+  original: File;
+  metadata: PhotoMetadata;
+  /** Set for video clips and Live Photos, whose `file` is the video. */
+  video?: VideoDetails;
+}
+
+interface ExifTags {
+  Orientation?: number;
+  DateTimeOriginal?: Date;
+  CreateDate?: Date;
+  latitude?: number;
+  longitude?: number;
+  Make?: string;
+  Model?: string;
+}
+
+const JPEG_QUALITY = 0.92;
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+const ingested = new WeakMap<File, Promise<IngestedPhoto>>();
+
+export function isHeic(file: File): boolean {
+  // iOS sometimes hands over HEIC files with an empty type
+  return HEIC_TYPES.includes(file.type.toLowerCase()) || /\.hei[cf]$/i.test(file.name);
+}
+
+function jpegName(name: string): string {
+  return name.replace(/\.[^.]+$/, '') + '.jpg';
+}
+
+async function readMetadata(file: File): Promise<PhotoMetadata> {
+  try {
+    const tags: ExifTags | undefined = await exifr.parse(file, {
+      pick: ['Orientation', 'DateTimeOriginal', 'CreateDate', 'GPSLatitude', 'GPSLongitude',
+        'GPSLatitudeRef', 'GPSLongitudeRef', 'Make', 'Model'],
+      gps: true,
+      translateValues: false
+    });
+    if (!tags) return {};
+
+    const captured = tags.DateTimeOriginal ?? tags.CreateDate;
+    const hasGps = Number.isFinite(tags.latitude) && Number.isFinite(tags.longitude);
+    return {
+      orientation: tags.Orientation,
+      capturedAt: captured instanceof Date && !isNaN(captured.getTime()) ? captured.getTime() : undefined,
+      gps: hasGps ? { latitude: tags.latitude!, longitude: tags.longitude! } : undefined,
+      camera: tags.Make || tags.Model ? { make: tags.Make?.trim(), model: tags.Model?.trim() } : undefined
+    };
+  } catch (err) {
+    console.warn('[INGEST] EXIF unreadable:', file.name, err);
+    return {};
+  }
+}
+
+async function convertHeic(file: File): Promise<File> {
+  // libheif is large; only load it when an HEIC photo actually arrives
+  const { default: heic2any } = await import('heic2any');
+  const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: JPEG_QUALITY });
+  const blob = Array.isArray(converted) ? converted[0] : converted;
+  return new File([blob], jpegName(file.name), { type: 'image/jpeg', lastModified: file.lastModified });
+}
+
+export function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = (err) => {
+      URL.revokeObjectURL(url);
+      reject(err);
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * Redraw the photo upright for browsers that ignore EXIF orientation when
+ * decoding. Modern browsers rotate on their own, in which case the file is
+ * returned untouched.
+ */
+async function applyOrientation(file: File, orientation: number | undefined): Promise<File> {
+  if (!orientation || orientation === 1) return file;
+  const rotation = exifr.rotations[orientation];
+  if (!rotation || !exifr.rotateCanvas) return file;
+
+  const img = await loadImage(file);
+  const width = rotation.dimensionSwapped ? img.naturalHeight : img.naturalWidth;
+  const height = rotation.dimensionSwapped ? img.naturalWidth : img.naturalHeight;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate(rotation.rad);
+  ctx.scale(rotation.scaleX, rotation.scaleY);
+  ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob) return file;
+  return new File([blob], jpegName(file.name), { type: 'image/jpeg', lastModified: file.lastModified });
+}
+
+async function ingest(file: File, livePhotoStill?: File): Promise<IngestedPhoto> {
+  if (isVideo(file)) {
+    return ingestVideo(file, livePhotoStill ? await ingestPhoto(livePhotoStill) : undefined);
+  }
+
+  const metadata = await readMetadata(file);
+  let decodable = file;
+
+  if (isHeic(file)) {
+    try {
+      decodable = await convertHeic(file);
+    } catch (err) {
+      // Safari decodes HEIC natively, so the original may still work
+      console.warn('[INGEST] HEIC conversion failed; using original:', file.name, err);
+    }
+  } else {
+    try {
+      decodable = await applyOrientation(file, metadata.orientation);
+    } catch (err) {
+      console.warn('[INGEST] Could not apply orientation:', file.name, err);
+    }
+  }
+
+  return { file: decodable, original: file, metadata };
+}
+
+/**
+ * Ingest a photo or clip once; later calls with the same File share the
+ * result. Pass a Live Photo's still with its motion clip on the first call.
+ */
+export function ingestPhoto(file: File, livePhotoStill?: File): Promise<IngestedPhoto> {
+  let result = ingested.get(file);
+  if (!result) {
+    result = ingest(file, livePhotoStill);
+    ingested.set(file, result);
+    // Converted files have lost their EXIF, so remember them as already ingested
+    const shared = result;
+    result.then(photo => {
+      if (photo.file !== file) ingested.set(photo.file, shared);
+    }, () => ingested.delete(file));
+  }
+  return result;
+}
+
+export function ingestPhotos(files: File[]): Promise<IngestedPhoto[]> {
+  return Promise.all(files.map(file => ingestPhoto(file)));
+}
+
+/** Ingest a batch of uploads, folding Live Photo stills into their clips. */
+export function ingestUploads(files: File[]): Promise<IngestedPhoto[]> {
+  return Promise.all(pairLivePhotos(files).map(item => ingestPhoto(item.file, item.livePhotoStill)));
+}
+
+/**
+ * Indices ordered by capture time. Photos without one keep their relative
+ * upload order after the dated ones, so with no EXIF at all this is the
+ * upload order.
+ */
+export function chronologicalOrder(metadata: PhotoMetadata[]): number[] {
+  const indices = metadata.map((_, i) => i);
+  const dated = indices.filter(i => metadata[i].capturedAt !== undefined);
+  const undated = indices.filter(i => metadata[i].capturedAt === undefined);
+  dated.sort((a, b) => metadata[a].capturedAt! - metadata[b].capturedAt! || a - b);
+  return [...dated, ...undated];
+}
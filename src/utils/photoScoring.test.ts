@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { duplicateClusters, hammingDistance } from './photoScoring';
+
+/** A 64-bit hash with the lowest `bits` bits set, as 16 hex digits. */
+function hashWithBits(bits: number): string {
+  return (bits >= 64 ? (1n << 64n) - 1n : (1n << BigInt(bits)) - 1n).toString(16).padStart(16, '0');
+}
+
+describe('duplicateClusters', () => {
+  it('groups hashes within a few bits of each other', () => {
+    expect(duplicateClusters([hashWithBits(0), hashWithBits(4), hashWithBits(40)])).toEqual([0, 0, 2]);
+  });
+
+  it('does not chain a gradual sequence into one cluster', () => {
+    // Each hash is 6 bits from the next, but the ends are 24 apart
+    const walk = [0, 6, 12, 18, 24].map(hashWithBits);
+    expect(hammingDistance(walk[0], walk[4])).toBe(24);
+    const clusters = duplicateClusters(walk);
+    expect(new Set(clusters).size).toBeGreaterThan(1);
+    clusters.forEach((cluster, i) => {
+      clusters.forEach((other, j) => {
+        if (cluster === other) expect(hammingDistance(walk[i], walk[j])).toBeLessThanOrEqual(10);
+      });
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { HISTOGRAM_LEVELS, type SequenceFeatures } from './heuristicSequencer';
+
+/**
+ * Client-side photo quality pass run before the narrative is built.
+ * Each photo is downscaled once to a grayscale buffer, from which we take
+ * sharpness (variance of the Laplacian), exposure and clipped-pixel
+ * fractions, and a 64-bit difference hash. Photos whose hashes are within a
+ * few bits of each other are clustered as near-duplicates (bursts, retakes)
+ * and only the best of each cluster is kept. The same buffers give the
+ * heuristic sequencer its features.
+ */
+
+export type ExclusionReason = 'duplicate' | 'blurry' | 'poorly-exposed' | 'over-limit';
+
+export interface PhotoScore {
+  /** Index into the photo list that was scored. */
+  index: number;
+  /** 0-1, from the variance of the Laplacian. */
+  sharpness: number;
+  /** 0-1, highest for a mid-grey average with little clipping. */
+  exposure: number;
+  /** Fraction of pixels crushed to black and blown to white. */
+  clipping: { shadows: number; highlights: number };
+  /** Weighted blend of sharpness and exposure, 0-1. */
+  quality: number;
+  /** Difference hash as 16 hex digits. */
+  hash: string;
+  /** Photos sharing a cluster id are near-duplicates. */
+  cluster: number;
+  selected: boolean;
+  excludedBecause?: ExclusionReason;
+  /** For duplicates, the photo kept in their place. */
+  duplicateOf?: number;
+}
+
+export interface PhotoSelection {
+  /** Indices of kept photos, in their original order. */
+  selected: number[];
+  scores: PhotoScore[];
+}
+
+const ANALYSIS_SIZE = 256;
+// Laplacian variance at ANALYSIS_SIZE above which a photo reads as fully sharp
+const SHARP_VARIANCE = 400;
+const CLIP_LOW = 0.02;
+const CLIP_HIGH = 0.98;
+// Hamming distance (of 64 bits) under which two photos count as the same shot
+const DUPLICATE_DISTANCE = 10;
+const SHARPNESS_WEIGHT = 0.6;
+const EXPOSURE_WEIGHT = 0.4;
+
+interface Grayscale {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+function toGrayscale(img: HTMLImageElement, canvas: HTMLCanvasElement): Grayscale {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(9, Math.round(img.naturalWidth * scale));
+  const height = Math.max(8, Math.round(img.naturalHeight * scale));
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0, width, height);
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    // Rec. 709 luma, 0-1
+    data[i] = (0.2126 * rgba[i * 4] + 0.7152 * rgba[i * 4 + 1] + 0.0722 * rgba[i * 4 + 2]) / 255;
+  }
+  return { data, width, height };
+}
+
+function laplacianVariance({ data, width, height }: Grayscale): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      // Scaled to 0-255 so the threshold reads like the usual OpenCV figure
+      const value = 255 * (data[i - 1] + data[i + 1] + data[i - width] + data[i + width] - 4 * data[i]);
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+function exposureStats({ data }: Grayscale): { exposure: number; shadows: number; highlights: number } {
+  let total = 0;
+  let shadows = 0;
+  let highlights = 0;
+
+  for (const value of data) {
+    total += value;
+    if (value <= CLIP_LOW) shadows++;
+    if (value >= CLIP_HIGH) highlights++;
+  }
+
+  const mean = total / data.length;
+  const shadowFraction = shadows / data.length;
+  const highlightFraction = highlights / data.length;
+  // A little clipping is normal (specular highlights, deep shadow); heavy
+  // clipping means lost detail
+  const clipPenalty = Math.min(1, Math.max(0, shadowFraction + highlightFraction - 0.02) * 4);
+  const balance = 1 - Math.min(1, Math.abs(mean - 0.47) * 2);
+
+  return {
+    exposure: Math.max(0, balance * (1 - clipPenalty)),
+    shadows: shadowFraction,
+    highlights: highlightFraction
+  };
+}
+
+/** 64-bit difference hash: brightness gradients across a 9x8 thumbnail. */
+function differenceHash({ data, width, height }: Grayscale): string {
+  const cells = new Float32Array(9 * 8);
+  for (let cy = 0; cy < 8; cy++) {
+    for (let cx = 0; cx < 9; cx++) {
+      const x0 = Math.floor((cx * width) / 9);
+      const x1 = Math.max(x0 + 1, Math.floor(((cx + 1) * width) / 9));
+      const y0 = Math.floor((cy * height) / 8);
+      const y1 = Math.max(y0 + 1, Math.floor(((cy + 1) * height) / 8));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) sum += data[y * width + x];
+      }
+      cells[cy * 9 + cx] = sum / ((x1 - x0) * (y1 - y0));
+    }
+  }
+
+  let hex = '';
+  for (let cy = 0; cy < 8; cy++) {
+    let byte = 0;
+    for (let cx = 0; cx < 8; cx++) {
+      byte = (byte << 1) | (cells[cy * 9 + cx] > cells[cy * 9 + cx + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/** Colour histogram of what `canvas` holds, over HISTOGRAM_LEVELS³ RGB bins. */
+function colourHistogram(canvas: HTMLCanvasElement): number[] {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const rgba = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  const bins = new Array<number>(HISTOGRAM_LEVELS ** 3).fill(0);
+  const pixels = rgba.length / 4;
+  for (let i = 0; i < rgba.length; i += 4) {
+    const r = Math.min(HISTOGRAM_LEVELS - 1, Math.floor((rgba[i] * HISTOGRAM_LEVELS) / 256));
+    const g = Math.min(HISTOGRAM_LEVELS - 1, Math.floor((rgba[i + 1] * HISTOGRAM_LEVELS) / 256));
+    const b = Math.min(HISTOGRAM_LEVELS - 1, Math.floor((rgba[i + 2] * HISTOGRAM_LEVELS) / 256));
+    bins[(r * HISTOGRAM_LEVELS + g) * HISTOGRAM_LEVELS + b]++;
+  }
+  // Rounded to keep the request small; the sequencer only compares shapes
+  return bins.map(count => Math.round((count / pixels) * 1e4) / 1e4);
+}
+
+/** What the heuristic sequencer compares: colour histogram, difference hash and mean brightness. */
+export function sequenceFeatures(img: HTMLImageElement, canvas = document.createElement('canvas')): SequenceFeatures {
+  const gray = toGrayscale(img, canvas);
+  return {
+    histogram: colourHistogram(canvas),
+    hash: differenceHash(gray),
+    brightness: gray.data.reduce((sum, value) => sum + value, 0) / gray.data.length
+  };
+}
+
+/** Score every photo; `cluster` groups near-duplicates. Nothing is selected yet. */
+export function scorePhotos(images: HTMLImageElement[]): PhotoScore[] {
+  const canvas = document.createElement('canvas');
+
+  const scores: PhotoScore[] = images.map((img, index) => {
+    const gray = toGrayscale(img, canvas);
+    const variance = laplacianVariance(gray);
+    const sharpness = Math.min(1, Math.log1p(variance) / Math.log1p(SHARP_VARIANCE));
+    const { exposure, shadows, highlights } = exposureStats(gray);
+
+    return {
+      index,
+      sharpness,
+      exposure,
+      clipping: { shadows, highlights },
+      quality: SHARPNESS_WEIGHT * sharpness + EXPOSURE_WEIGHT * exposure,
+      hash: differenceHash(gray),
+      cluster: index,
+      selected: false
+    };
+  });
+
+  const clusters = duplicateClusters(scores.map(score => score.hash));
+  scores.forEach(score => { score.cluster = clusters[score.index]; });
+
+  return scores;
+}
+
+/**
+ * Cluster id for each hash, the index of the cluster's first member.
+ * Linkage is complete: a photo joins the first cluster whose every member
+ * is within DUPLICATE_DISTANCE of it, so a gradual sequence (a walk, a slow
+ * pan) whose neighbours are each close does not chain into one cluster.
+ */
+export function duplicateClusters(hashes: string[]): number[] {
+  const clusters: number[][] = [];
+  const ids = new Array<number>(hashes.length);
+  hashes.forEach((hash, i) => {
+    const match = clusters.find(members => members.every(j => hammingDistance(hash, hashes[j]) <= DUPLICATE_DISTANCE));
+    if (match) {
+      match.push(i);
+      ids[i] = match[0];
+    } else {
+      clusters.push([i]);
+      ids[i] = i;
+    }
+  });
+  return ids;
+}
+
+/**
+ * Keep the best photo of each near-duplicate cluster, then drop the
+ * weakest remaining photos until at most `count` are left. Marks every
+ * score as selected or excluded with a reason the UI can show.
+ */
+export function selectPhotos(scores: PhotoScore[], count: number): PhotoSelection {
+  const best = new Map<number, PhotoScore>();
+  for (const score of scores) {
+    const current = best.get(score.cluster);
+    if (!current || score.quality > current.quality) best.set(score.cluster, score);
+  }
+
+  const marked: PhotoScore[] = scores.map(score => {
+    const keeper = best.get(score.cluster)!;
+    return keeper === score
+      ? { ...score, selected: true, excludedBecause: undefined, duplicateOf: undefined }
+      : { ...score, selected: false, excludedBecause: 'duplicate', duplicateOf: keeper.index };
+  });
+
+  const candidates = marked.filter(score => score.selected).sort((a, b) => a.quality - b.quality);
+  for (const score of candidates.slice(0, Math.max(0, candidates.length - count))) {
+    score.selected = false;
+    score.excludedBecause = score.sharpness < 0.5 && score.sharpness <= score.exposure ? 'blurry'
+      : score.exposure < 0.5 ? 'poorly-exposed'
+      : 'over-limit';
+  }
+
+  return {
+    selected: marked.filter(score => score.selected).map(score => score.index),
+    scores: marked
+  };
+}
@@ -0,0 +1,78 @@
+import WebCodecsExporter, { type PcmAudio } from './WebCodecsExporter';
+import TimelineRenderer from './timelineRenderer';
+import type { RenderWorkerMessage, RenderWorkerRequest } from './renderWorkerClient';
+
+/**
+ * Render worker: draws a validated plan onto an OffscreenCanvas with the
+ * same TimelineRenderer as the main thread and encodes it with WebCodecs.
+ * Cancellation is handled by the client terminating the worker.
+ */
+
+const PROGRESS_EVERY_FRAMES = 6;
+
+// The app is typed against the DOM lib; a Worker has the same messaging surface as the worker scope
+const scope = self as unknown as Worker;
+
+function post(message: RenderWorkerMessage): void {
+  scope.postMessage(message);
+}
+
+async function render({ plan, images, audio }: RenderWorkerRequest): Promise<RenderWorkerMessage> {
+  const { width, height, fps } = plan.output;
+  if (typeof OffscreenCanvas === 'undefined' || !WebCodecsExporter.isSupported()) {
+    return { type: 'unsupported', reason: 'OffscreenCanvas or WebCodecs is unavailable in workers' };
+  }
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return { type: 'unsupported', reason: 'OffscreenCanvas has no 2D context' };
+  }
+
+  const pcm: PcmAudio | null = audio && {
+    numberOfChannels: audio.length,
+    getChannelData: (channel: number) => audio[channel]
+  };
+  const exporter = await WebCodecsExporter.create({
+    canvas,
+    width,
+    height,
+    fps,
+    videoBitsPerSecond: plan.output.videoBitsPerSecond,
+    audio: pcm,
+    container: plan.output.container
+  });
+  if (!exporter) {
+    return { type: 'unsupported', reason: 'No supported WebCodecs configuration' };
+  }
+
+  // Photos no clip uses are never read
+  const renderer = new TimelineRenderer(ctx, plan.output);
+  const { totalFrames } = await renderer.load(plan, images as ImageBitmap[]);
+
+  try {
+    for (let frame = 0; frame < totalFrames; frame++) {
+      renderer.drawFrame(frame);
+      await exporter.addFrame(frame);
+      if (frame % PROGRESS_EVERY_FRAMES === 0) {
+        post({ type: 'progress', frame: frame + 1, totalFrames });
+      }
+    }
+    post({ type: 'progress', frame: totalFrames, totalFrames });
+    return { type: 'done', blob: await exporter.finish() };
+  } catch (err) {
+    exporter.abort();
+    throw err;
+  }
+}
+
+scope.onmessage = (e: MessageEvent<RenderWorkerRequest>) => {
+  if (e.data.type !== 'render') return;
+  const { images } = e.data;
+  render(e.data)
+    .then(post, (err) => {
+      console.error('[WORKER] Render failed:', err);
+      post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    })
+    .finally(() => images.forEach(image => image?.close()));
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import type { PlanClip } from '../types/plan';
+import { clipStartSeconds, planDurationSeconds } from './renderPlan';
+
+const FULL_FRAME = { x: 0, y: 0, width: 1, height: 1 };
+
+function clip(durationSeconds: number, withTransition: boolean): PlanClip {
+  return {
+    photoIndex: 0,
+    durationSeconds,
+    effect: 'static',
+    motion: { from: FULL_FRAME, to: FULL_FRAME, easing: 'linear' },
+    ...(withTransition ? { transition: { type: 'crossfade', durationSeconds: 0.5, holdSeconds: 0.25 } } : {})
+  };
+}
+
+describe('planDurationSeconds', () => {
+  it('counts every transition but the last clip\'s', () => {
+    const plan = {
+      title: { text: 'Title', durationSeconds: 2 },
+      clips: [clip(3, true), clip(3, true)],
+      endCard: { title: 'The end', credits: [], durationSeconds: 1 },
+      fadeOutSeconds: 0.5
+    };
+    expect(planDurationSeconds(plan)).toBe(2 + 3 + 0.75 + 3 + 1 + 0.5);
+  });
+
+  it('ends where the last clip does when there are no closing cards', () => {
+    const plan = { title: null, clips: [clip(2, true), clip(4, true), clip(1, false)], endCard: null, fadeOutSeconds: 0 };
+    expect(planDurationSeconds(plan)).toBe(clipStartSeconds(plan)[2] + 1);
+  });
+});
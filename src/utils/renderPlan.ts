@@ -0,0 +1,286 @@
+import {
+  RENDER_PLAN_VERSION,
+  type PlanClip,
+  type PlanMotion,
+  type PlanRect,
+  type RenderPlan
+} from '../types/plan';
+import type { ClipMotion, CropRect } from './kenBurns';
+import { ASPECT_PRESETS } from './renderSettings';
+import { LOOK_NAMES } from './colorGrading';
+import { hasTransition, transitionTypes } from './transitions';
+
+export type PlanValidationResult =
+  | { ok: true; plan: RenderPlan }
+  | { ok: false; errors: string[] };
+
+const EFFECTS = ['zoom-in', 'zoom-out', 'pan-left', 'pan-right', 'static'];
+const EASINGS = ['linear', 'easeInOutSine', 'easeInOutCubic', 'easeOutQuad'];
+const CONTAINERS = ['mp4', 'webm', 'auto'];
+const REVEALS = ['fade', 'rise', 'typewriter', 'wipe'];
+const FOCAL_SOURCES = ['vision', 'saliency', 'manual'];
+const CLIP_AUDIO_MODES = ['mute', 'duck'];
+const FONTS = ['serif', 'sans'];
+// Rounding in producers may nudge a crop a hair past the image edge
+const RECT_TOLERANCE = 1e-6;
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Check that `value` is a RenderPlan this renderer can play. Collects every
+ * problem rather than stopping at the first, so a bad plan from a producer
+ * can be fixed in one pass. `photoCount` additionally bounds photo indices.
+ */
+export function validateRenderPlan(value: unknown, photoCount?: number): PlanValidationResult {
+  const errors: string[] = [];
+  const nonNegative = (v: unknown, path: string) => {
+    if (!isNumber(v) || v < 0) errors.push(`${path} must be a non-negative number`);
+  };
+  const positive = (v: unknown, path: string) => {
+    if (!isNumber(v) || v <= 0) errors.push(`${path} must be a positive number`);
+  };
+  const oneOf = (v: unknown, allowed: string[], path: string) => {
+    if (typeof v !== 'string' || !allowed.includes(v)) errors.push(`${path} must be one of ${allowed.join(', ')}`);
+  };
+  const rect = (v: unknown, path: string) => {
+    if (!isObject(v)) {
+      errors.push(`${path} must be a rectangle`);
+      return;
+    }
+    const { x, y, width, height } = v as Partial<PlanRect>;
+    if (![x, y, width, height].every(isNumber)) {
+      errors.push(`${path} must have numeric x, y, width and height`);
+      return;
+    }
+    if (width! <= 0 || height! <= 0 || x! < -RECT_TOLERANCE || y! < -RECT_TOLERANCE
+      || x! + width! > 1 + RECT_TOLERANCE || y! + height! > 1 + RECT_TOLERANCE) {
+      errors.push(`${path} must lie within the unit square`);
+    }
+  };
+
+  if (!isObject(value)) {
+    return { ok: false, errors: ['plan must be an object'] };
+  }
+
+  if (value.version !== RENDER_PLAN_VERSION) {
+    errors.push(`version must be ${RENDER_PLAN_VERSION}`);
+  }
+
+  const output = value.output;
+  if (!isObject(output)) {
+    errors.push('output must be an object');
+  } else {
+    oneOf(output.aspectRatio, Object.keys(ASPECT_PRESETS), 'output.aspectRatio');
+    positive(output.width, 'output.width');
+    positive(output.height, 'output.height');
+    positive(output.fps, 'output.fps');
+    positive(output.videoBitsPerSecond, 'output.videoBitsPerSecond');
+    oneOf(output.container, CONTAINERS, 'output.container');
+    if (!isObject(output.safeArea)) {
+      errors.push('output.safeArea must be an object');
+    } else {
+      for (const edge of ['top', 'right', 'bottom', 'left']) {
+        nonNegative(output.safeArea[edge], `output.safeArea.${edge}`);
+      }
+    }
+    if (output.grading !== undefined) {
+      const grading = output.grading;
+      if (!isObject(grading)) {
+        errors.push('output.grading must be an object');
+      } else {
+        oneOf(grading.look, LOOK_NAMES, 'output.grading.look');
+        if (typeof grading.autoBalance !== 'boolean') errors.push('output.grading.autoBalance must be a boolean');
+        if (grading.look === 'custom' && typeof grading.lutUrl !== 'string') {
+          errors.push('output.grading.lutUrl must be a string for the custom look');
+        }
+      }
+    }
+  }
+
+  const optionalString = (v: unknown, path: string) => {
+    if (v !== undefined && typeof v !== 'string') errors.push(`${path} must be a string`);
+  };
+  const reveal = (v: unknown, path: string) => {
+    if (v !== undefined) oneOf(v, REVEALS, path);
+  };
+
+  if (value.title !== null) {
+    if (!isObject(value.title) || typeof value.title.text !== 'string') {
+      errors.push('title must be null or have a text string');
+    } else {
+      positive(value.title.durationSeconds, 'title.durationSeconds');
+      reveal(value.title.reveal, 'title.reveal');
+    }
+  }
+
+  if (!Array.isArray(value.clips) || value.clips.length === 0) {
+    errors.push('clips must be a non-empty array');
+  } else {
+    value.clips.forEach((clip: unknown, i: number) => {
+      const path = `clips[${i}]`;
+      if (!isObject(clip)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      const index = clip.photoIndex;
+      if (!Number.isInteger(index) || (index as number) < 0
+        || (photoCount !== undefined && (index as number) >= photoCount)) {
+        errors.push(`${path}.photoIndex must be a valid photo index`);
+      }
+      positive(clip.durationSeconds, `${path}.durationSeconds`);
+      oneOf(clip.effect, EFFECTS, `${path}.effect`);
+      if (!isObject(clip.motion)) {
+        errors.push(`${path}.motion must be an object`);
+      } else {
+        rect(clip.motion.from, `${path}.motion.from`);
+        rect(clip.motion.to, `${path}.motion.to`);
+        oneOf(clip.motion.easing, EASINGS, `${path}.motion.easing`);
+      }
+      if (clip.focalRegion !== undefined) {
+        rect(clip.focalRegion, `${path}.focalRegion`);
+        if (isObject(clip.focalRegion)) oneOf(clip.focalRegion.source, FOCAL_SOURCES, `${path}.focalRegion.source`);
+      }
+      optionalString(clip.caption, `${path}.caption`);
+      if (clip.lowerThird !== undefined) {
+        if (!isObject(clip.lowerThird) || typeof clip.lowerThird.title !== 'string') {
+          errors.push(`${path}.lowerThird must have a title string`);
+        } else {
+          optionalString(clip.lowerThird.subtitle, `${path}.lowerThird.subtitle`);
+          reveal(clip.lowerThird.reveal, `${path}.lowerThird.reveal`);
+        }
+      }
+      if (clip.transition !== undefined) {
+        if (!isObject(clip.transition)) {
+          errors.push(`${path}.transition must be an object`);
+        } else {
+          if (typeof clip.transition.type !== 'string' || !hasTransition(clip.transition.type)) {
+            errors.push(`${path}.transition.type must be one of ${transitionTypes().join(', ')}`);
+          }
+          nonNegative(clip.transition.durationSeconds, `${path}.transition.durationSeconds`);
+          nonNegative(clip.transition.holdSeconds, `${path}.transition.holdSeconds`);
+        }
+      }
+      if (clip.video !== undefined) {
+        const video = clip.video;
+        if (!isObject(video)) {
+          errors.push(`${path}.video must be an object`);
+        } else {
+          nonNegative(video.trimStartSeconds, `${path}.video.trimStartSeconds`);
+          if (!isNumber(video.trimEndSeconds) || !isNumber(video.trimStartSeconds)
+            || video.trimEndSeconds <= video.trimStartSeconds) {
+            errors.push(`${path}.video.trimEndSeconds must be after trimStartSeconds`);
+          }
+          oneOf(video.audio, CLIP_AUDIO_MODES, `${path}.video.audio`);
+        }
+      }
+    });
+  }
+
+  if (value.audio !== null) {
+    const audio = value.audio;
+    if (!isObject(audio) || typeof audio.trackId !== 'string' || typeof audio.url !== 'string') {
+      errors.push('audio must be null or have trackId and url strings');
+    } else {
+      nonNegative(audio.startOffsetSeconds, 'audio.startOffsetSeconds');
+      nonNegative(audio.fadeInSeconds, 'audio.fadeInSeconds');
+      nonNegative(audio.fadeOutSeconds, 'audio.fadeOutSeconds');
+      optionalString(audio.credit, 'audio.credit');
+    }
+  }
+
+  if (value.endCard !== undefined && value.endCard !== null) {
+    const card = value.endCard;
+    if (!isObject(card) || typeof card.title !== 'string') {
+      errors.push('endCard must be null or have a title string');
+    } else {
+      optionalString(card.dateRange, 'endCard.dateRange');
+      if (!Array.isArray(card.credits) || !card.credits.every(c => typeof c === 'string')) {
+        errors.push('endCard.credits must be an array of strings');
+      }
+      positive(card.durationSeconds, 'endCard.durationSeconds');
+      reveal(card.reveal, 'endCard.reveal');
+    }
+  }
+
+  nonNegative(value.fadeOutSeconds, 'fadeOutSeconds');
+  optionalString(value.template, 'template');
+
+  if (value.typography !== undefined) {
+    const typography = value.typography;
+    if (!isObject(typography)) {
+      errors.push('typography must be an object');
+    } else {
+      for (const role of ['title', 'caption']) {
+        const style = typography[role];
+        const path = `typography.${role}`;
+        if (style === undefined) continue;
+        if (!isObject(style)) {
+          errors.push(`${path} must be an object`);
+          continue;
+        }
+        if (style.font !== undefined) oneOf(style.font, FONTS, `${path}.font`);
+        optionalString(style.color, `${path}.color`);
+        if (style.uppercase !== undefined && typeof style.uppercase !== 'boolean') {
+          errors.push(`${path}.uppercase must be a boolean`);
+        }
+        if (style.scale !== undefined) positive(style.scale, `${path}.scale`);
+      }
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, plan: value as unknown as RenderPlan };
+}
+
+/** Total running time of a plan, matching what the renderer draws. */
+export function planDurationSeconds(plan: Pick<RenderPlan, 'title' | 'clips' | 'endCard' | 'fadeOutSeconds'>): number {
+  return plan.clips.reduce((sum, clip: PlanClip, i) => {
+    // The last clip's transition is never drawn
+    const transition = i < plan.clips.length - 1 ? clip.transition : undefined;
+    return sum + clip.durationSeconds + (transition?.holdSeconds ?? 0) + (transition?.durationSeconds ?? 0);
+  }, (plan.title?.durationSeconds ?? 0) + (plan.endCard?.durationSeconds ?? 0) + plan.fadeOutSeconds);
+}
+
+/**
+ * Where each clip starts on the plan's timeline, in seconds, matching the
+ * renderer's layout: the title card first, then each clip followed by its
+ * hold and transition. The last clip's transition is never drawn.
+ */
+export function clipStartSeconds(plan: Pick<RenderPlan, 'title' | 'clips'>): number[] {
+  let cursor = plan.title?.durationSeconds ?? 0;
+  return plan.clips.map((clip, i) => {
+    const start = cursor;
+    const transition = i < plan.clips.length - 1 ? clip.transition : undefined;
+    cursor += clip.durationSeconds + (transition?.holdSeconds ?? 0) + (transition?.durationSeconds ?? 0);
+    return start;
+  });
+}
+
+/** Convert a pixel-space Ken Burns move into resolution-independent plan form. */
+export function toPlanMotion(motion: ClipMotion, imageWidth: number, imageHeight: number): PlanMotion {
+  const rect = (r: CropRect): PlanRect => ({
+    x: r.x / imageWidth,
+    y: r.y / imageHeight,
+    width: r.width / imageWidth,
+    height: r.height / imageHeight
+  });
+  return { from: rect(motion.from), to: rect(motion.to), easing: motion.easing };
+}
+
+/** Inverse of toPlanMotion for the image the plan is rendered with. */
+export function fromPlanMotion(motion: PlanMotion, imageWidth: number, imageHeight: number): ClipMotion {
+  const rect = (r: PlanRect): CropRect => ({
+    x: r.x * imageWidth,
+    y: r.y * imageHeight,
+    width: r.width * imageWidth,
+    height: r.height * imageHeight
+  });
+  return { from: rect(motion.from), to: rect(motion.to), easing: motion.easing };
+}
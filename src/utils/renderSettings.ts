@@ -0,0 +1,91 @@
+import { NO_GRADING, type ColorGrading } from './colorGrading';
+
+/**
+ * Output format presets for the in-browser renderer.
+ * Safe areas are per-edge insets, as fractions of the frame, that keep
+ * titles and subjects clear of letterboxing, overscan and phone UI chrome.
+ */
+
+export type AspectRatio = '16:9' | '2.39:1' | '1:1' | '9:16';
+
+export type OutputContainer = 'mp4' | 'webm' | 'auto';
+
+export interface SafeArea {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface RenderSettings {
+  aspectRatio: AspectRatio;
+  width: number;
+  height: number;
+  fps: number;
+  videoBitsPerSecond: number;
+  /** 'auto' prefers MP4 and falls back to WebM when H.264/AAC cannot be encoded. */
+  container: OutputContainer;
+  /** Safe area in pixels. */
+  safeArea: SafeArea;
+  /** Look and photo normalisation; absent in plans saved before grading, which render ungraded. */
+  grading?: ColorGrading;
+}
+
+export interface RenderSettingsInput {
+  aspectRatio?: string;
+  fps?: number;
+  videoBitsPerSecond?: number;
+  container?: OutputContainer;
+  grading?: Partial<ColorGrading>;
+}
+
+export const ASPECT_PRESETS: Record<AspectRatio, { width: number; height: number; safeInsets: SafeArea }> = {
+  '16:9': { width: 1920, height: 1080, safeInsets: { top: 0.1, right: 0.1, bottom: 0.1, left: 0.1 } },
+  '2.39:1': { width: 1920, height: 804, safeInsets: { top: 0.1, right: 0.08, bottom: 0.1, left: 0.08 } },
+  '1:1': { width: 1080, height: 1080, safeInsets: { top: 0.08, right: 0.08, bottom: 0.08, left: 0.08 } },
+  // Phone apps overlay the top bar, captions and action buttons on vertical video
+  '9:16': { width: 1080, height: 1920, safeInsets: { top: 0.12, right: 0.08, bottom: 0.2, left: 0.08 } }
+};
+
+export const SUPPORTED_FPS = [24, 30];
+
+// 0.08 bits per pixel per frame gives the previous 5 Mbps at 1080p30
+const BITS_PER_PIXEL_FRAME = 0.08;
+
+function isAspectRatio(value: string | undefined): value is AspectRatio {
+  return !!value && value in ASPECT_PRESETS;
+}
+
+export function resolveRenderSettings(input: RenderSettingsInput = {}): RenderSettings {
+  const aspectRatio = isAspectRatio(input.aspectRatio) ? input.aspectRatio : '16:9';
+  const fps = input.fps && SUPPORTED_FPS.includes(input.fps) ? input.fps : 30;
+  const { width, height, safeInsets } = ASPECT_PRESETS[aspectRatio];
+
+  return {
+    aspectRatio,
+    width,
+    height,
+    fps,
+    videoBitsPerSecond: input.videoBitsPerSecond ?? Math.round(width * height * fps * BITS_PER_PIXEL_FRAME),
+    container: input.container ?? 'auto',
+    grading: { ...NO_GRADING, autoBalance: true, ...input.grading },
+    safeArea: {
+      top: Math.round(safeInsets.top * height),
+      right: Math.round(safeInsets.right * width),
+      bottom: Math.round(safeInsets.bottom * height),
+      left: Math.round(safeInsets.left * width)
+    }
+  };
+}
+
+/**
+ * Centre of the safe area as a normalised (0-1) point in the frame. Crops
+ * anchor the photo's focus here instead of at the geometric centre.
+ */
+export function safeAreaCenter(settings: RenderSettings): { x: number; y: number } {
+  const { safeArea, width, height } = settings;
+  return {
+    x: (safeArea.left + (width - safeArea.right)) / 2 / width,
+    y: (safeArea.top + (height - safeArea.bottom)) / 2 / height
+  };
+}
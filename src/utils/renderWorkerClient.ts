@@ -0,0 +1,98 @@
+import type { RenderPlan } from '../types/plan';
+
+/**
+ * Main-thread side of the render worker. Frames are drawn on an
+ * OffscreenCanvas and encoded in the worker, so the page stays responsive
+ * during export; planning, photo decoding and music mixing stay on the main
+ * thread, which has the DOM and Web Audio the worker lacks.
+ */
+
+export interface RenderWorkerRequest {
+  type: 'render';
+  plan: RenderPlan;
+  /** Decoded photos indexed by photoIndex; null where no clip uses the photo. */
+  images: (ImageBitmap | null)[];
+  /** Planar channel data of the mixed music bed, at the exporter's sample rate. */
+  audio: Float32Array<ArrayBuffer>[] | null;
+}
+
+export type RenderWorkerMessage =
+  | { type: 'progress'; frame: number; totalFrames: number }
+  | { type: 'done'; blob: Blob }
+  /** The worker cannot draw or encode in this browser; render on the main thread instead. */
+  | { type: 'unsupported'; reason: string }
+  | { type: 'error'; message: string };
+
+export interface WorkerRenderOptions {
+  signal?: AbortSignal;
+  onProgress?: (frame: number, totalFrames: number) => void;
+}
+
+export function canRenderInWorker(): boolean {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof createImageBitmap !== 'undefined'
+    && typeof VideoEncoder !== 'undefined';
+}
+
+/**
+ * Render `plan` in a dedicated worker. Resolves with the encoded file, or
+ * null when the worker reports it cannot render here. Aborting `signal`
+ * terminates the worker and rejects with the signal's reason. The images
+ * and audio are transferred, so they are unusable here afterwards.
+ */
+export function renderInWorker(
+  plan: RenderPlan,
+  images: (ImageBitmap | null)[],
+  audio: AudioBuffer | null,
+  options: WorkerRenderOptions = {}
+): Promise<Blob | null> {
+  const { signal, onProgress } = options;
+  signal?.throwIfAborted();
+
+  const channels = audio
+    ? Array.from({ length: audio.numberOfChannels }, (_, c) => audio.getChannelData(c).slice())
+    : null;
+  const worker = new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' });
+
+  return new Promise<Blob | null>((resolve, reject) => {
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+      finish();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    worker.onmessage = (e: MessageEvent<RenderWorkerMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.frame, message.totalFrames);
+        return;
+      }
+
+      finish();
+      if (message.type === 'done') {
+        resolve(message.blob);
+      } else if (message.type === 'unsupported') {
+        console.warn('[WORKER] Cannot render in a worker:', message.reason);
+        resolve(null);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || 'Render worker failed'));
+    };
+
+    const request: RenderWorkerRequest = { type: 'render', plan, images, audio: channels };
+    const transfer: Transferable[] = [
+      ...images.filter((image): image is ImageBitmap => image !== null),
+      ...(channels ?? []).map(channel => channel.buffer)
+    ];
+    worker.postMessage(request, transfer);
+  });
+}
@@ -0,0 +1,421 @@
+import { createFilmOverlay, gradeImage, resolveGrade } from './colorGrading';
+import { cropAt, type ClipMotion, type MotionEffect } from './kenBurns';
+import type { RenderSettings } from './renderSettings';
+import { fromPlanMotion } from './renderPlan';
+import { getTransition, type TransitionDefinition } from './transitions';
+import {
+  CAPTION_STYLE,
+  DETAIL_STYLE,
+  LOWER_THIRD_SUBTITLE_STYLE,
+  LOWER_THIRD_TITLE_STYLE,
+  TITLE_STYLE,
+  applyTextStyle,
+  drawText,
+  layoutText,
+  loadFonts,
+  stackBoxes,
+  textBox,
+  textTiming,
+  type RevealStyle,
+  type TextFit,
+  type TextLayout
+} from './typography';
+import { seekVideo } from './videoIngest';
+import { imageSize, isVideoElement, type DrawableImage, type DrawableMedia, type DrawingContext } from '../types/canvas';
+import type { PlanEndCard, PlanLowerThird, PlanTextStyle, PlanTransition, PlanVideo, RenderPlan } from '../types/plan';
+
+/**
+ * Frame drawing for a render plan. A plan is laid out once as a list of
+ * frame-indexed segments, after which any frame can be drawn on its own.
+ * The export loop, the live preview and the render worker all draw through
+ * this class, so what is previewed is what is encoded. Video clips draw
+ * from a <video> element, which prepareFrame seeks before each draw.
+ */
+
+/** A plan clip resolved against its loaded photo, in source pixels, with its text laid out. */
+interface ImageData {
+  img: DrawableMedia;
+  duration: number;
+  effect: MotionEffect;
+  motion: ClipMotion;
+  caption?: TextLayout;
+  lowerThird?: { reveal: RevealStyle; layouts: TextLayout[] };
+  /** Transition into the next clip; unset on the last clip. */
+  transition?: PlanTransition;
+  video?: PlanVideo;
+}
+
+type SegmentKind = 'title' | 'clip' | 'hold' | 'transition' | 'endCard' | 'fadeOut';
+
+/** A run of frames on the timeline and what draws them. */
+interface TimelineSegment {
+  kind: SegmentKind;
+  startFrame: number;
+  frames: number;
+  durationSeconds: number;
+  /** The clip for clip and hold segments; the outgoing clip of a transition. */
+  clipIndex?: number;
+  transition?: TransitionDefinition;
+}
+
+/** A loaded plan laid out in frames, with its text already measured. */
+interface Timeline {
+  plan: RenderPlan;
+  clips: ImageData[];
+  segments: TimelineSegment[];
+  totalFrames: number;
+  title: TextLayout | null;
+  endCard: (TextLayout | null)[];
+}
+
+/** A point on the timeline a preview can jump to. */
+export interface TimelineMarker {
+  kind: 'clip' | 'transition';
+  /** Index into the plan's clips; for transitions, the outgoing clip. */
+  clipIndex: number;
+  startFrame: number;
+  label: string;
+}
+
+export interface TimelineInfo {
+  fps: number;
+  width: number;
+  height: number;
+  totalFrames: number;
+  durationSeconds: number;
+  markers: TimelineMarker[];
+}
+
+const TEXT_REVEAL_SECONDS = 0.8;
+const CAPTION_FADE_SECONDS = 0.4;
+// Graded copies keep enough resolution for Ken Burns push-ins on the frame
+const GRADE_OVERSAMPLE = 1.5;
+
+export default class TimelineRenderer {
+  private ctx: DrawingContext;
+  private settings: RenderSettings;
+  private timeline: Timeline | null = null;
+  private overlay: ((ctx: DrawingContext, frame: number) => void) | null = null;
+
+  constructor(ctx: DrawingContext, settings: RenderSettings) {
+    this.ctx = ctx;
+    this.settings = settings;
+  }
+
+  private get width(): number {
+    return this.settings.width;
+  }
+
+  private get height(): number {
+    return this.settings.height;
+  }
+
+  private get fps(): number {
+    return this.settings.fps;
+  }
+
+  get totalFrames(): number {
+    return this.timeline?.totalFrames ?? 0;
+  }
+
+  /**
+   * Lay out an already validated `plan` in frames, drawing its photos from
+   * `images` (indexed by photoIndex), which hold a <video> for video clips.
+   * The plan's output settings must match the ones this renderer was
+   * created with.
+   */
+  async load(plan: RenderPlan, images: DrawableMedia[]): Promise<TimelineInfo> {
+    // Text is measured below, so the faces must be ready first
+    await loadFonts([
+      plan.title?.text ?? '',
+      ...plan.clips.flatMap(clip => [clip.caption ?? '', clip.lowerThird?.title ?? '', clip.lowerThird?.subtitle ?? '']),
+      plan.endCard ? [plan.endCard.title, plan.endCard.dateRange ?? '', ...plan.endCard.credits].join(' ') : ''
+    ]);
+
+    // Each photo is graded once here; only grain and vignette are per frame
+    const grade = await resolveGrade(this.settings.grading);
+    const maxEdge = Math.max(this.width, this.height) * GRADE_OVERSAMPLE;
+    const graded = new Map<number, DrawableImage>();
+    const gradedImage = (photoIndex: number) => {
+      const source = images[photoIndex];
+      // Grading every video frame in script is too slow to keep up; video
+      // clips only get the film overlay
+      if (isVideoElement(source)) return source;
+      let image = graded.get(photoIndex);
+      if (!image) {
+        image = gradeImage(source, grade, maxEdge);
+        graded.set(photoIndex, image);
+      }
+      return image;
+    };
+    this.overlay = createFilmOverlay(this.width, this.height, grade);
+
+    const captionStyle = applyTextStyle(CAPTION_STYLE, plan.typography?.caption);
+    const captionFit = this.fontFit(0.035, 0.022, 2, plan.typography?.caption?.scale);
+    const clips: ImageData[] = plan.clips.map(clip => {
+      const img = gradedImage(clip.photoIndex);
+      const { width, height } = imageSize(img);
+      return {
+        img,
+        duration: clip.durationSeconds,
+        effect: clip.effect,
+        motion: fromPlanMotion(clip.motion, width, height),
+        caption: clip.caption
+          ? layoutText(this.ctx, clip.caption, textBox(this.settings, 'caption'), captionStyle, captionFit)
+          : undefined,
+        lowerThird: clip.lowerThird
+          ? { reveal: clip.lowerThird.reveal ?? 'wipe', layouts: this.layoutLowerThird(clip.lowerThird) }
+          : undefined,
+        transition: clip.transition,
+        video: clip.video
+      };
+    });
+
+    // Segment lengths are rounded against the running timeline rather than
+    // one by one, so the total frame count is exactly duration * fps with
+    // no accumulated drift
+    const segments: TimelineSegment[] = [];
+    let seconds = 0;
+    let frame = 0;
+    const addSegment = (kind: SegmentKind, durationSeconds: number, extra: Partial<TimelineSegment> = {}) => {
+      seconds += Math.max(0, durationSeconds);
+      const end = Math.round(seconds * this.fps);
+      if (end > frame) {
+        segments.push({ kind, startFrame: frame, frames: end - frame, durationSeconds, ...extra });
+      }
+      frame = end;
+    };
+
+    if (plan.title) addSegment('title', plan.title.durationSeconds);
+    clips.forEach((clip, clipIndex) => {
+      addSegment('clip', clip.duration, { clipIndex });
+      const preset = clip.transition;
+      if (!preset || clipIndex === clips.length - 1) return;
+
+      console.log('[TRANSITION]');
+      console.log(`type=${preset.type}`);
+      if (preset.holdSeconds > 0) addSegment('hold', preset.holdSeconds, { clipIndex });
+      const transition = getTransition(preset.type);
+      if (transition && preset.durationSeconds > 0) {
+        addSegment('transition', preset.durationSeconds, { clipIndex, transition });
+      }
+    });
+    if (plan.endCard) addSegment('endCard', plan.endCard.durationSeconds);
+    addSegment('fadeOut', plan.fadeOutSeconds);
+
+    this.timeline = {
+      plan,
+      clips,
+      segments,
+      totalFrames: frame,
+      title: plan.title
+        ? layoutText(
+            this.ctx,
+            plan.title.text,
+            textBox(this.settings, 'center'),
+            applyTextStyle(TITLE_STYLE, plan.typography?.title),
+            this.fontFit(0.08, 0.03, 4, plan.typography?.title?.scale)
+          )
+        : null,
+      endCard: plan.endCard ? this.layoutEndCard(plan.endCard, plan.typography?.title) : []
+    };
+
+    const markers: TimelineMarker[] = segments.flatMap((segment): TimelineMarker[] => {
+      if (segment.kind === 'clip') {
+        const photoIndex = plan.clips[segment.clipIndex!].photoIndex;
+        return [{ kind: 'clip', clipIndex: segment.clipIndex!, startFrame: segment.startFrame, label: `Photo ${photoIndex + 1}` }];
+      }
+      if (segment.kind === 'transition') {
+        return [{ kind: 'transition', clipIndex: segment.clipIndex!, startFrame: segment.startFrame, label: segment.transition!.type }];
+      }
+      return [];
+    });
+
+    return {
+      fps: this.fps,
+      width: this.width,
+      height: this.height,
+      totalFrames: frame,
+      durationSeconds: frame / this.fps,
+      markers
+    };
+  }
+
+  /**
+   * Draw one frame of the loaded timeline. Frames are drawn independently
+   * of each other, so a preview can seek to any of them.
+   */
+  drawFrame(frameIndex: number): void {
+    const timeline = this.timeline;
+    if (!timeline) {
+      throw new Error('No plan loaded; call load first');
+    }
+
+    const index = Math.max(0, Math.floor(frameIndex));
+    const segment = timeline.segments.find(s => index < s.startFrame + s.frames);
+    if (!segment) {
+      this.clearFrame();
+      return;
+    }
+
+    const local = index - segment.startFrame;
+    switch (segment.kind) {
+      case 'title':
+        this.drawTitleCard(timeline, local);
+        break;
+      case 'clip':
+        this.drawClip(timeline.clips[segment.clipIndex!], index, local, segment.frames);
+        break;
+      case 'hold':
+        this.drawImageWithEffect(timeline.clips[segment.clipIndex!], 1);
+        this.overlay?.(this.ctx, index);
+        break;
+      case 'transition':
+        this.drawTransition(
+          timeline.clips[segment.clipIndex!],
+          timeline.clips[segment.clipIndex! + 1],
+          segment.transition!,
+          local / segment.frames
+        );
+        this.overlay?.(this.ctx, index);
+        break;
+      case 'endCard':
+        this.drawEndCard(timeline, local);
+        break;
+      case 'fadeOut':
+        this.clearFrame();
+        break;
+    }
+  }
+
+  /**
+   * Seek the video clips visible in a frame to the moment it shows, so the
+   * following drawFrame draws the right picture. Resolves at once for
+   * frames with no video.
+   */
+  async prepareFrame(frameIndex: number): Promise<void> {
+    const timeline = this.timeline;
+    if (!timeline) return;
+    const index = Math.max(0, Math.floor(frameIndex));
+    const segment = timeline.segments.find(s => index < s.startFrame + s.frames);
+    if (!segment || segment.clipIndex === undefined) return;
+
+    const clip = timeline.clips[segment.clipIndex];
+    const seeks: Promise<void>[] = [];
+    const seekClip = (imageData: ImageData, seconds: number) => {
+      if (!imageData.video || !isVideoElement(imageData.img)) return;
+      // Past the trim end the last frame holds
+      const time = Math.min(imageData.video.trimStartSeconds + seconds, imageData.video.trimEndSeconds);
+      seeks.push(seekVideo(imageData.img, time));
+    };
+
+    if (segment.kind === 'clip') {
+      seekClip(clip, (index - segment.startFrame) / this.fps);
+    } else {
+      // Holds and transitions show the outgoing clip's last frame and the incoming clip's first
+      seekClip(clip, clip.duration);
+      if (segment.kind === 'transition') seekClip(timeline.clips[segment.clipIndex + 1], 0);
+    }
+    await Promise.all(seeks);
+  }
+
+  /** Largest and smallest font sizes for a text role, scaled to the frame and by the plan's `scale`. */
+  private fontFit(max: number, min: number, maxLines: number, scale = 1): TextFit {
+    const base = Math.min(this.width, this.height) * scale;
+    return { maxFontSize: Math.round(base * max), minFontSize: Math.round(base * min), maxLines };
+  }
+
+  private clearFrame(): void {
+    this.ctx.fillStyle = '#000000';
+    this.ctx.fillRect(0, 0, this.width, this.height);
+  }
+
+  private drawTitleCard(timeline: Timeline, frame: number): void {
+    this.clearFrame();
+    const title = timeline.plan.title;
+    if (!title || !timeline.title) return;
+
+    const { progress, alpha } = textTiming(frame / this.fps, title.durationSeconds, TEXT_REVEAL_SECONDS, 1);
+    drawText(this.ctx, timeline.title, title.reveal ?? 'rise', progress, alpha);
+  }
+
+  private layoutEndCard(card: PlanEndCard, titleStyle?: PlanTextStyle): (TextLayout | null)[] {
+    const [titleBox, dateBox, creditsBox] = stackBoxes(textBox(this.settings, 'center'), [5, 1.5, 2]);
+    const style = applyTextStyle({ ...TITLE_STYLE, verticalAlign: 'bottom' }, titleStyle);
+    return [
+      layoutText(this.ctx, card.title, titleBox, style, this.fontFit(0.065, 0.03, 3, titleStyle?.scale)),
+      card.dateRange ? layoutText(this.ctx, card.dateRange, dateBox, DETAIL_STYLE, this.fontFit(0.035, 0.02, 1)) : null,
+      card.credits.length > 0
+        ? layoutText(this.ctx, card.credits.join('\n'), creditsBox, { ...DETAIL_STYLE, verticalAlign: 'top' }, this.fontFit(0.022, 0.016, 3))
+        : null
+    ];
+  }
+
+  private drawEndCard(timeline: Timeline, frame: number): void {
+    this.clearFrame();
+    const card = timeline.plan.endCard;
+    if (!card) return;
+
+    // Title first, then the date and credits follow it in
+    timeline.endCard.forEach((layout, i) => {
+      if (!layout) return;
+      const elapsed = frame / this.fps - i * 0.4;
+      const { progress } = textTiming(Math.max(0, elapsed), card.durationSeconds, TEXT_REVEAL_SECONDS, 0);
+      drawText(this.ctx, layout, i === 0 ? card.reveal ?? 'fade' : 'fade', elapsed > 0 ? progress : 0);
+    });
+  }
+
+  private drawClip(imageData: ImageData, frameIndex: number, frame: number, frames: number): void {
+    this.drawImageWithEffect(imageData, frame / frames);
+    // Grain and vignette sit on the picture, under the text
+    this.overlay?.(this.ctx, frameIndex);
+
+    const elapsed = frame / this.fps;
+    if (imageData.caption) {
+      const timing = textTiming(elapsed, imageData.duration, CAPTION_FADE_SECONDS, CAPTION_FADE_SECONDS);
+      drawText(this.ctx, imageData.caption, 'fade', timing.progress, timing.alpha);
+    }
+    if (imageData.lowerThird) {
+      const timing = textTiming(elapsed, imageData.duration, TEXT_REVEAL_SECONDS, CAPTION_FADE_SECONDS);
+      for (const layout of imageData.lowerThird.layouts) {
+        drawText(this.ctx, layout, imageData.lowerThird.reveal, timing.progress, timing.alpha);
+      }
+    }
+  }
+
+  private layoutLowerThird(lowerThird: PlanLowerThird): TextLayout[] {
+    const box = textBox(this.settings, 'lower-third');
+    if (!lowerThird.subtitle) {
+      return [layoutText(this.ctx, lowerThird.title, box, LOWER_THIRD_TITLE_STYLE, this.fontFit(0.045, 0.025, 2))];
+    }
+    const [titleBox, subtitleBox] = stackBoxes(box, [3, 2]);
+    return [
+      layoutText(this.ctx, lowerThird.title, titleBox, LOWER_THIRD_TITLE_STYLE, this.fontFit(0.045, 0.025, 2)),
+      layoutText(this.ctx, lowerThird.subtitle, subtitleBox, LOWER_THIRD_SUBTITLE_STYLE, this.fontFit(0.028, 0.02, 1))
+    ];
+  }
+
+  /**
+   * Draw the clip's crop for `progress` (0-1) so it fills the canvas.
+   * Crops are fractional, so motion moves in sub-pixel steps rather than
+   * snapping to whole pixels.
+   */
+  private drawImageWithEffect(imageData: ImageData, progress: number): void {
+    const crop = cropAt(imageData.motion, progress);
+
+    this.ctx.save();
+    this.ctx.imageSmoothingEnabled = true;
+    this.ctx.imageSmoothingQuality = 'high';
+    this.ctx.drawImage(imageData.img, crop.x, crop.y, crop.width, crop.height, 0, 0, this.width, this.height);
+    this.ctx.restore();
+  }
+
+  private drawTransition(from: ImageData, to: ImageData, transition: TransitionDefinition, progress: number): void {
+    const target = { ctx: this.ctx, width: this.width, height: this.height };
+
+    this.ctx.save();
+    this.clearFrame();
+    transition.draw(target, () => this.drawImageWithEffect(from, 1), () => this.drawImageWithEffect(to, 0), progress);
+    this.ctx.restore();
+  }
+}
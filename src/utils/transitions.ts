@@ -0,0 +1,216 @@
+import type { NarrativePhase } from './beatAnalysis';
+import type { DrawingContext } from '../types/canvas';
+
+/**
+ * Transition registry. A transition is a pure drawing function: given the
+ * canvas, a way to draw each clip full-frame and the blend progress (0-1),
+ * it paints one frame. The renderer owns timing, so any registered
+ * transition can be scheduled by name from a plan.
+ */
+
+export interface TransitionTarget {
+  ctx: DrawingContext;
+  width: number;
+  height: number;
+}
+
+/** Draws a clip filling the canvas under the context's current transform, alpha and clip. */
+export type DrawLayer = () => void;
+
+export type TransitionDraw = (target: TransitionTarget, from: DrawLayer, to: DrawLayer, progress: number) => void;
+
+export interface TransitionDefinition {
+  type: string;
+  /** Blend length when a producer does not override it; 0 means a straight cut. */
+  defaultDurationSeconds: number;
+  /** Narrative phases the transition suits; the built-in planner stays within them. */
+  phases: NarrativePhase[];
+  draw: TransitionDraw;
+}
+
+const ALL_PHASES: NarrativePhase[] = ['intro', 'development', 'climax', 'resolve'];
+
+const registry = new Map<string, TransitionDefinition>();
+
+export function registerTransition(definition: TransitionDefinition): void {
+  registry.set(definition.type, definition);
+}
+
+export function getTransition(type: string): TransitionDefinition | undefined {
+  return registry.get(type);
+}
+
+export function hasTransition(type: string): boolean {
+  return registry.has(type);
+}
+
+export function transitionTypes(): string[] {
+  return [...registry.keys()];
+}
+
+export function isAllowedIn(type: string, phase: NarrativePhase): boolean {
+  return registry.get(type)?.phases.includes(phase) ?? false;
+}
+
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+function withAlpha(ctx: DrawingContext, alpha: number, draw: DrawLayer): void {
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  draw();
+  ctx.restore();
+}
+
+/** Fade out through a solid colour, then fade the next clip in from it. */
+function dipThrough(color: string): TransitionDraw {
+  return ({ ctx, width, height }, from, to, progress) => {
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, width, height);
+    if (progress < 0.5) {
+      withAlpha(ctx, 1 - easeInOutCubic(progress * 2), from);
+    } else {
+      withAlpha(ctx, easeInOutCubic((progress - 0.5) * 2), to);
+    }
+  };
+}
+
+type WipeDirection = 'left' | 'right' | 'up' | 'down';
+
+/** The incoming clip is revealed behind an edge travelling in `direction`. */
+function wipe(direction: WipeDirection): TransitionDraw {
+  return ({ ctx, width, height }, from, to, progress) => {
+    const t = easeInOutCubic(progress);
+    from();
+    ctx.save();
+    ctx.beginPath();
+    if (direction === 'left') ctx.rect(width * (1 - t), 0, width * t, height);
+    if (direction === 'right') ctx.rect(0, 0, width * t, height);
+    if (direction === 'up') ctx.rect(0, height * (1 - t), width, height * t);
+    if (direction === 'down') ctx.rect(0, 0, width, height * t);
+    ctx.clip();
+    to();
+    ctx.restore();
+  };
+}
+
+/** Both clips slide sideways at speed with ghosted copies standing in for motion blur. */
+function whipPan(direction: 'left' | 'right'): TransitionDraw {
+  const GHOSTS = 4;
+  return ({ ctx, width }, from, to, progress) => {
+    const sign = direction === 'left' ? -1 : 1;
+    const offset = easeInOutCubic(progress) * width * sign;
+    // Blur is widest at peak speed, mid-transition
+    const smear = Math.sin(Math.PI * progress) * width * 0.08 * sign;
+
+    const layer = (draw: DrawLayer, x: number) => {
+      ctx.save();
+      ctx.translate(x, 0);
+      draw();
+      ctx.restore();
+      for (let g = 1; g <= GHOSTS; g++) {
+        ctx.save();
+        ctx.globalAlpha = 0.35 / g;
+        ctx.translate(x - (smear * g) / GHOSTS, 0);
+        draw();
+        ctx.restore();
+      }
+    };
+
+    layer(from, offset);
+    layer(to, offset - width * sign);
+  };
+}
+
+const crossZoom: TransitionDraw = ({ ctx, width, height }, from, to, progress) => {
+  const t = easeInOutCubic(progress);
+  const blur = Math.sin(Math.PI * progress) * Math.min(width, height) * 0.01;
+
+  const zoomed = (draw: DrawLayer, scale: number, alpha: number) => {
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    ctx.filter = `blur(${blur.toFixed(1)}px)`;
+    ctx.translate(width / 2, height / 2);
+    ctx.scale(scale, scale);
+    ctx.translate(-width / 2, -height / 2);
+    draw();
+    ctx.restore();
+  };
+
+  zoomed(from, 1 + t * 0.6, 1);
+  zoomed(to, 1.6 - t * 0.6, t);
+};
+
+const lightLeak: TransitionDraw = ({ ctx, width, height }, from, to, progress) => {
+  const t = easeInOutCubic(progress);
+  from();
+  withAlpha(ctx, t, to);
+
+  // Warm flare drifting across the frame, brightest as the clips cross
+  const strength = Math.sin(Math.PI * progress);
+  const cx = width * (0.2 + 0.6 * progress);
+  const cy = height * 0.3;
+  const radius = Math.max(width, height) * 0.7;
+  const flare = ctx.createRadialGradient(cx, cy, 0, cx, cy, radius);
+  flare.addColorStop(0, `rgba(255, 196, 120, ${0.85 * strength})`);
+  flare.addColorStop(0.45, `rgba(255, 120, 60, ${0.4 * strength})`);
+  flare.addColorStop(1, 'rgba(255, 80, 40, 0)');
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'lighter';
+  ctx.fillStyle = flare;
+  ctx.fillRect(0, 0, width, height);
+  ctx.restore();
+};
+
+const filmBurn: TransitionDraw = ({ ctx, width, height }, from, to, progress) => {
+  if (progress < 0.5) from(); else to();
+
+  // A burn spreads from the corner, blows out to near-white at the cut,
+  // then recedes over the incoming clip
+  const heat = Math.sin(Math.PI * progress);
+  const radius = Math.hypot(width, height) * (0.3 + 0.9 * heat);
+  const burn = ctx.createRadialGradient(width, height, 0, width, height, radius);
+  burn.addColorStop(0, `rgba(255, 250, 235, ${heat})`);
+  burn.addColorStop(0.35, `rgba(255, 170, 60, ${0.9 * heat})`);
+  burn.addColorStop(0.7, `rgba(190, 50, 10, ${0.6 * heat})`);
+  burn.addColorStop(1, 'rgba(120, 20, 0, 0)');
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'screen';
+  ctx.fillStyle = burn;
+  ctx.fillRect(0, 0, width, height);
+  ctx.restore();
+};
+
+const dissolve: TransitionDraw = ({ ctx, width, height }, from, to, progress) => {
+  const t = easeInOutCubic(progress);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  withAlpha(ctx, 1 - t, from);
+  withAlpha(ctx, t, to);
+};
+
+const cut: TransitionDraw = (_target, _from, to) => to();
+
+// Durations assume the 30fps default; they are seconds, so 24fps keeps the same feel
+const BUILT_IN: TransitionDefinition[] = [
+  { type: 'hard_cut', defaultDurationSeconds: 0, phases: ALL_PHASES, draw: cut },
+  // Holds freeze the outgoing clip before a cut; the pause is the transition
+  { type: 'breath_hold', defaultDurationSeconds: 0, phases: ['climax', 'resolve'], draw: cut },
+  { type: 'match_dissolve', defaultDurationSeconds: 0.2, phases: ['intro', 'development', 'resolve'], draw: dissolve },
+  { type: 'dip_to_black_micro', defaultDurationSeconds: 0.27, phases: ['resolve'], draw: dipThrough('#000000') },
+  { type: 'dip_to_white', defaultDurationSeconds: 0.4, phases: ['intro', 'climax'], draw: dipThrough('#ffffff') },
+  { type: 'wipe_left', defaultDurationSeconds: 0.5, phases: ['development', 'climax'], draw: wipe('left') },
+  { type: 'wipe_right', defaultDurationSeconds: 0.5, phases: ['development', 'climax'], draw: wipe('right') },
+  { type: 'wipe_up', defaultDurationSeconds: 0.5, phases: ['development', 'climax'], draw: wipe('up') },
+  { type: 'wipe_down', defaultDurationSeconds: 0.5, phases: ['development', 'climax'], draw: wipe('down') },
+  { type: 'cross_zoom', defaultDurationSeconds: 0.4, phases: ['development', 'climax'], draw: crossZoom },
+  { type: 'whip_pan_left', defaultDurationSeconds: 0.3, phases: ['development', 'climax'], draw: whipPan('left') },
+  { type: 'whip_pan_right', defaultDurationSeconds: 0.3, phases: ['development', 'climax'], draw: whipPan('right') },
+  { type: 'light_leak', defaultDurationSeconds: 0.8, phases: ['intro', 'development', 'resolve'], draw: lightLeak },
+  { type: 'film_burn', defaultDurationSeconds: 0.7, phases: ['climax', 'resolve'], draw: filmBurn }
+];
+
+BUILT_IN.forEach(registerTransition);
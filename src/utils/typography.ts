@@ -0,0 +1,347 @@
+import interLatin400 from '@fontsource/inter/files/inter-latin-400-normal.woff2?url';
+import interLatinExt400 from '@fontsource/inter/files/inter-latin-ext-400-normal.woff2?url';
+import interLatin600 from '@fontsource/inter/files/inter-latin-600-normal.woff2?url';
+import interLatinExt600 from '@fontsource/inter/files/inter-latin-ext-600-normal.woff2?url';
+import playfairLatin500 from '@fontsource/playfair-display/files/playfair-display-latin-500-normal.woff2?url';
+import playfairLatinExt500 from '@fontsource/playfair-display/files/playfair-display-latin-ext-500-normal.woff2?url';
+import type { RenderSettings } from './renderSettings';
+import type { DrawingContext } from '../types/canvas';
+import type { PlanTextStyle } from '../types/plan';
+
+/**
+ * Text layout for title cards, captions, lower thirds and end cards.
+ * Text is wrapped and sized to fit a box inside the frame's safe area, and
+ * drawn with a reveal animation driven by a 0-1 progress value so the
+ * renderer stays in charge of timing.
+ */
+
+export type RevealStyle = 'fade' | 'rise' | 'typewriter' | 'wipe';
+
+export type TextRegion = 'center' | 'lower-third' | 'caption';
+
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextStyle {
+  family: string;
+  weight: number;
+  color: string;
+  /** Line height as a multiple of the font size. */
+  lineHeight: number;
+  align: 'left' | 'center';
+  verticalAlign: 'top' | 'middle' | 'bottom';
+  /** Soft shadow so text reads over bright photos. */
+  shadow: boolean;
+  uppercase?: boolean;
+}
+
+export interface TextFit {
+  /** Largest and smallest font sizes to try, in pixels. */
+  maxFontSize: number;
+  minFontSize: number;
+  maxLines: number;
+}
+
+export interface TextLayout {
+  lines: string[];
+  fontSize: number;
+  style: TextStyle;
+  box: TextBox;
+}
+
+const SERIF = '"Playfair Display", Georgia, serif';
+const SANS = 'Inter, "Helvetica Neue", Arial, sans-serif';
+
+export const TITLE_STYLE: TextStyle = {
+  family: SERIF, weight: 500, color: '#ffffff', lineHeight: 1.2, align: 'center', verticalAlign: 'middle', shadow: false
+};
+export const CAPTION_STYLE: TextStyle = {
+  family: SANS, weight: 400, color: '#ffffff', lineHeight: 1.3, align: 'center', verticalAlign: 'bottom', shadow: true
+};
+export const LOWER_THIRD_TITLE_STYLE: TextStyle = {
+  family: SANS, weight: 600, color: '#ffffff', lineHeight: 1.2, align: 'left', verticalAlign: 'bottom', shadow: true
+};
+export const LOWER_THIRD_SUBTITLE_STYLE: TextStyle = {
+  family: SANS, weight: 400, color: 'rgba(255, 255, 255, 0.85)', lineHeight: 1.3, align: 'left', verticalAlign: 'top', shadow: true
+};
+export const DETAIL_STYLE: TextStyle = {
+  family: SANS, weight: 400, color: 'rgba(255, 255, 255, 0.8)', lineHeight: 1.4, align: 'center', verticalAlign: 'middle', shadow: false
+};
+
+/**
+ * `base` with a plan's template styling applied. Only loaded faces are
+ * used: the serif at its one weight, the sans at the base weight when the
+ * base is already sans and otherwise its semibold.
+ */
+export function applyTextStyle(base: TextStyle, style?: PlanTextStyle): TextStyle {
+  if (!style) return base;
+  const font = style.font === 'serif' ? { family: SERIF, weight: 500 }
+    : style.font === 'sans' ? { family: SANS, weight: base.family === SANS ? base.weight : 600 }
+    : {};
+  return {
+    ...base,
+    ...font,
+    ...(style.color ? { color: style.color } : {}),
+    ...(style.uppercase !== undefined ? { uppercase: style.uppercase } : {})
+  };
+}
+
+// Faces registered by the @fontsource CSS in main.tsx; canvas text only
+// uses a web font once it has loaded
+const FONT_FACES = [`500 32px ${SERIF}`, `400 32px ${SANS}`, `600 32px ${SANS}`];
+
+// Workers have no stylesheet, so the render worker registers the Latin
+// subsets itself; other scripts fall back to system fonts there
+const LATIN = 'U+0000-00FF,U+0131,U+0152-0153,U+02BB-02BC,U+02C6,U+02DA,U+02DC,U+0304,U+0308,U+0329,U+2000-206F,U+20AC,U+2122,U+2191,U+2193,U+2212,U+2215,U+FEFF,U+FFFD';
+const LATIN_EXT = 'U+0100-02BA,U+02BD-02C5,U+02C7-02CC,U+02CE-02D7,U+02DD-02FF,U+0304,U+0308,U+0329,U+1D00-1DBF,U+1E00-1E9F,U+1EF2-1EFF,U+2020,U+20A0-20AB,U+20AD-20C0,U+2113,U+2C60-2C7F,U+A720-A7FF';
+const WORKER_FONT_FILES = [
+  { family: 'Inter', weight: '400', url: interLatin400, unicodeRange: LATIN },
+  { family: 'Inter', weight: '400', url: interLatinExt400, unicodeRange: LATIN_EXT },
+  { family: 'Inter', weight: '600', url: interLatin600, unicodeRange: LATIN },
+  { family: 'Inter', weight: '600', url: interLatinExt600, unicodeRange: LATIN_EXT },
+  { family: 'Playfair Display', weight: '500', url: playfairLatin500, unicodeRange: LATIN },
+  { family: 'Playfair Display', weight: '500', url: playfairLatinExt500, unicodeRange: LATIN_EXT }
+];
+
+let workerFontsRegistered = false;
+
+function fontSet(): FontFaceSet | undefined {
+  if (typeof document !== 'undefined') return document.fonts;
+  const fonts = (self as unknown as { fonts?: FontFaceSet }).fonts;
+  if (fonts && !workerFontsRegistered && typeof FontFace !== 'undefined') {
+    for (const file of WORKER_FONT_FILES) {
+      fonts.add(new FontFace(file.family, `url(${file.url})`, { weight: file.weight, unicodeRange: file.unicodeRange }));
+    }
+    workerFontsRegistered = true;
+  }
+  return fonts;
+}
+
+/**
+ * Load the bundled faces, including the unicode ranges `texts` need, so the
+ * first frames are not drawn in a fallback font. Works on the main thread
+ * and in the render worker. Never rejects.
+ */
+export async function loadFonts(texts: string[]): Promise<void> {
+  const fonts = fontSet();
+  if (!fonts) return;
+  const sample = texts.join(' ') || 'A';
+  try {
+    await Promise.all(FONT_FACES.map(face => fonts.load(face, sample)));
+  } catch (err) {
+    console.warn('[TYPE] Web fonts failed to load; using fallbacks.', err);
+  }
+}
+
+export function fontString(style: TextStyle, fontSize: number): string {
+  return `${style.weight} ${fontSize}px ${style.family}`;
+}
+
+/** Box for `region` inside the safe area of `settings`, in pixels. */
+export function textBox(settings: RenderSettings, region: TextRegion): TextBox {
+  const { safeArea, width, height } = settings;
+  const x = safeArea.left;
+  const y = safeArea.top;
+  const safeWidth = width - safeArea.left - safeArea.right;
+  const safeHeight = height - safeArea.top - safeArea.bottom;
+
+  if (region === 'lower-third') {
+    // Narrower than the frame on landscape so it reads as a label, not a banner
+    const boxWidth = width > height ? safeWidth * 0.6 : safeWidth;
+    return { x, y: y + safeHeight * 0.7, width: boxWidth, height: safeHeight * 0.3 };
+  }
+  if (region === 'caption') {
+    return { x, y: y + safeHeight * 0.78, width: safeWidth, height: safeHeight * 0.22 };
+  }
+  return { x, y, width: safeWidth, height: safeHeight };
+}
+
+/** Split `box` into stacked boxes with the given relative heights. */
+export function stackBoxes(box: TextBox, weights: number[]): TextBox[] {
+  const total = weights.reduce((a, b) => a + b, 0);
+  let y = box.y;
+  return weights.map(weight => {
+    const height = box.height * weight / total;
+    const part = { x: box.x, y, width: box.width, height };
+    y += height;
+    return part;
+  });
+}
+
+/**
+ * Wrap `text` into `box`, shrinking the font from `fit.maxFontSize` until it
+ * fits within `fit.maxLines`. At the minimum size any overflow is cut with
+ * an ellipsis rather than leaving the box.
+ */
+export function layoutText(
+  ctx: DrawingContext,
+  text: string,
+  box: TextBox,
+  style: TextStyle,
+  fit: TextFit
+): TextLayout {
+  const minFontSize = Math.max(1, Math.min(fit.minFontSize, fit.maxFontSize));
+  if (style.uppercase) text = text.toLocaleUpperCase();
+  let fontSize = Math.max(minFontSize, Math.floor(fit.maxFontSize));
+
+  ctx.save();
+  try {
+    for (;;) {
+      ctx.font = fontString(style, fontSize);
+      const lines = wrapLines(ctx, text, box.width);
+      const fitsHeight = lines.length * fontSize * style.lineHeight <= box.height;
+      if ((lines.length <= fit.maxLines && fitsHeight) || fontSize <= minFontSize) {
+        const maxLines = Math.max(1, Math.min(fit.maxLines, Math.floor(box.height / (fontSize * style.lineHeight))));
+        return { lines: truncateLines(ctx, lines, maxLines, box.width), fontSize, style, box };
+      }
+      fontSize = Math.max(minFontSize, Math.floor(fontSize * 0.92));
+    }
+  } finally {
+    ctx.restore();
+  }
+}
+
+function wrapLines(ctx: DrawingContext, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (ctx.measureText(candidate).width <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      // A single word wider than the box is broken by character
+      while (ctx.measureText(line).width > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && ctx.measureText(line.slice(0, cut)).width > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    if (line) lines.push(line);
+  }
+
+  return lines;
+}
+
+function truncateLines(ctx: DrawingContext, lines: string[], maxLines: number, maxWidth: number): string[] {
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  let last = kept[maxLines - 1];
+  while (last.length > 0 && ctx.measureText(`${last}…`).width > maxWidth) {
+    last = last.slice(0, -1);
+  }
+  kept[maxLines - 1] = `${last.trimEnd()}…`;
+  return kept;
+}
+
+function easeOutCubic(t: number): number {
+  return 1 - Math.pow(1 - Math.min(1, Math.max(0, t)), 3);
+}
+
+/**
+ * Draw a layout. `reveal` is the reveal animation's progress (1 = fully
+ * shown) and `alpha` an overall opacity for fading the text out again.
+ */
+export function drawText(
+  ctx: DrawingContext,
+  layout: TextLayout,
+  reveal: RevealStyle,
+  progress: number,
+  alpha = 1
+): void {
+  const { lines, fontSize, style, box } = layout;
+  const lineHeight = fontSize * style.lineHeight;
+  const blockHeight = lines.length * lineHeight;
+  const top = style.verticalAlign === 'top' ? box.y
+    : style.verticalAlign === 'bottom' ? box.y + box.height - blockHeight
+    : box.y + (box.height - blockHeight) / 2;
+  const x = style.align === 'center' ? box.x + box.width / 2 : box.x;
+
+  ctx.save();
+  ctx.font = fontString(style, fontSize);
+  ctx.fillStyle = style.color;
+  ctx.textAlign = style.align;
+  ctx.textBaseline = 'middle';
+  if (style.shadow) {
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = fontSize / 3;
+    ctx.shadowOffsetY = fontSize / 20;
+  }
+
+  if (reveal === 'wipe') {
+    ctx.beginPath();
+    ctx.rect(box.x, box.y, box.width * easeOutCubic(progress), box.height);
+    ctx.clip();
+  }
+
+  const totalChars = lines.reduce((sum, line) => sum + line.length, 0);
+  let charsLeft = Math.floor(totalChars * Math.min(1, progress));
+
+  lines.forEach((line, i) => {
+    const y = top + lineHeight * (i + 0.5);
+    let lineAlpha = alpha;
+    let offset = 0;
+    let visible = line;
+
+    if (reveal === 'fade') {
+      lineAlpha *= easeOutCubic(progress);
+    } else if (reveal === 'rise') {
+      // Lines follow each other in, each starting a little after the last
+      const stagger = lines.length > 1 ? 0.3 / (lines.length - 1) : 0;
+      const local = easeOutCubic((progress - i * stagger) / (1 - stagger * (lines.length - 1)));
+      lineAlpha *= local;
+      offset = (1 - local) * fontSize * 0.6;
+    } else if (reveal === 'typewriter') {
+      visible = line.slice(0, Math.max(0, charsLeft));
+      charsLeft -= line.length;
+    }
+
+    if (!visible || lineAlpha <= 0) return;
+    ctx.globalAlpha = lineAlpha;
+    ctx.fillText(visible, x, y + offset);
+  });
+
+  ctx.restore();
+}
+
+/**
+ * Opacity envelope for text shown for `duration` seconds: reveals over the
+ * first `revealSeconds` and fades out over the last `fadeSeconds`.
+ */
+export function textTiming(elapsed: number, duration: number, revealSeconds: number, fadeSeconds: number): {
+  progress: number;
+  alpha: number;
+} {
+  const reveal = Math.min(revealSeconds, duration / 2);
+  const fade = Math.min(fadeSeconds, duration / 2);
+  return {
+    progress: reveal > 0 ? Math.min(1, elapsed / reveal) : 1,
+    alpha: fade > 0 ? Math.min(1, Math.max(0, (duration - elapsed) / fade)) : 1
+  };
+}
+
+/** "June 2024", "March – June 2024" or "December 2023 – January 2024". */
+export function formatDateRange(dates: Date[]): string | undefined {
+  const times = dates.map(d => d.getTime()).filter(t => Number.isFinite(t));
+  if (times.length === 0) return undefined;
+  const start = new Date(Math.min(...times));
+  const end = new Date(Math.max(...times));
+
+  const monthYear = (d: Date) => d.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  if (start.getFullYear() === end.getFullYear() && start.getMonth() === end.getMonth()) {
+    return monthYear(end);
+  }
+  if (start.getFullYear() === end.getFullYear()) {
+    return `${start.toLocaleDateString(undefined, { month: 'long' })} – ${monthYear(end)}`;
+  }
+  return `${monthYear(start)} – ${monthYear(end)}`;
+}
@@ -0,0 +1,307 @@
+import type { IngestedPhoto, PhotoMetadata } from './photoIngest';
+
+/**
+ * Video ingestion: short clips and Live Photos from the camera roll. Each
+ * clip gets a trim window (the first stable stretch of footage, which the
+ * user can move), a poster frame that stands in for it wherever a still is
+ * needed (thumbnails, scoring, framing, server renders), and a capture time
+ * from the QuickTime header. Live Photo stills are paired with their motion
+ * clip by file name and used as its poster and metadata.
+ */
+
+export interface VideoTrim {
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export interface VideoDetails {
+  durationSeconds: number;
+  width: number;
+  height: number;
+  /** Upright JPEG still: the Live Photo's own photo, otherwise a frame at the trim start. */
+  poster: File;
+  /** Automatic trim window. */
+  trim: VideoTrim;
+  livePhoto: boolean;
+}
+
+/** An upload and, for a Live Photo motion clip, the still taken with it. */
+export interface UploadItem {
+  file: File;
+  livePhotoStill?: File;
+}
+
+export const DEFAULT_CLIP_SECONDS = 4;
+export const MAX_CLIP_SECONDS = 8;
+export const MIN_CLIP_SECONDS = 1;
+
+const VIDEO_EXTENSIONS = /\.(mov|mp4|m4v|webm)$/i;
+const STABILITY_SAMPLES_PER_SECOND = 4;
+// Only the opening is scanned; shaky starts are rarely longer than this
+const STABILITY_SCAN_SECONDS = 3;
+// Mean absolute luma change (0-255) between samples below which footage is steady
+const STABLE_DIFFERENCE = 10;
+const THUMB_SIZE = 32;
+const POSTER_MAX_EDGE = 2048;
+const JPEG_QUALITY = 0.9;
+const SEEK_TOLERANCE_SECONDS = 1e-3;
+// Seeking right to the end can yield a blank frame in some browsers
+const END_MARGIN_SECONDS = 0.05;
+const METADATA_SCAN_BYTES = 512 * 1024;
+// QuickTime times count seconds from 1904-01-01
+const MAC_EPOCH_OFFSET_SECONDS = 2082844800;
+
+export function isVideo(file: File): boolean {
+  return file.type.toLowerCase().startsWith('video/') || VIDEO_EXTENSIONS.test(file.name);
+}
+
+function stem(name: string): string {
+  return name.replace(/\.[^.]+$/, '').toLowerCase();
+}
+
+/**
+ * Pair each video with a still of the same name (IMG_0042.HEIC and
+ * IMG_0042.MOV), which is how Live Photos arrive when exported. A paired
+ * still is folded into its clip and takes no slot of its own.
+ */
+export function pairLivePhotos(files: File[]): UploadItem[] {
+  const stills = new Map<string, File>();
+  for (const file of files) {
+    if (!isVideo(file)) stills.set(stem(file.name), file);
+  }
+  const paired = new Set<File>();
+  const items = files.map((file): UploadItem => {
+    const still = isVideo(file) ? stills.get(stem(file.name)) : undefined;
+    if (still) paired.add(still);
+    return still ? { file, livePhotoStill: still } : { file };
+  });
+  return items.filter(item => !paired.has(item.file));
+}
+
+/**
+ * Load a clip far enough for its first frame to be drawn. The element is
+ * muted (its sound is mixed separately) and keeps its object URL, because
+ * every seek reads from it; call releaseVideo when done with it.
+ */
+export function loadVideo(file: File): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(video.error ?? new Error(`Could not load video ${file.name}`));
+    };
+    video.src = url;
+  });
+}
+
+export function releaseVideo(video: HTMLVideoElement): void {
+  const url = video.src;
+  video.removeAttribute('src');
+  video.load();
+  if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+}
+
+/** Seek to `seconds` and wait until that frame can be drawn. */
+export function seekVideo(video: HTMLVideoElement, seconds: number): Promise<void> {
+  const target = Math.max(0, Math.min(seconds, video.duration - END_MARGIN_SECONDS));
+  if (!video.seeking && Math.abs(video.currentTime - target) < SEEK_TOLERANCE_SECONDS) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener('seeked', done);
+      video.removeEventListener('error', fail);
+    };
+    const done = () => {
+      cleanup();
+      resolve();
+    };
+    const fail = () => {
+      cleanup();
+      reject(video.error ?? new Error('Video seek failed'));
+    };
+    video.addEventListener('seeked', done);
+    video.addEventListener('error', fail);
+    video.currentTime = target;
+  });
+}
+
+/** Draw the current frame into a canvas no larger than `maxEdge` on its long side. */
+function frameCanvas(video: HTMLVideoElement, maxEdge: number): HTMLCanvasElement {
+  const scale = Math.min(1, maxEdge / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+  canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+async function captureJpeg(video: HTMLVideoElement, maxEdge: number): Promise<Blob> {
+  const canvas = frameCanvas(video, maxEdge);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob) throw new Error('Could not encode video frame');
+  return blob;
+}
+
+function lumaThumbnail(video: HTMLVideoElement): Float32Array {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMB_SIZE;
+  canvas.height = THUMB_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(video, 0, 0, THUMB_SIZE, THUMB_SIZE);
+  const { data } = ctx.getImageData(0, 0, THUMB_SIZE, THUMB_SIZE);
+  const luma = new Float32Array(THUMB_SIZE * THUMB_SIZE);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luma;
+}
+
+function meanDifference(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length;
+}
+
+/**
+ * Trim window of up to `clipSeconds` starting where the footage first
+ * settles: the opening is sampled a few times a second and the window
+ * starts at the first pair of samples that barely differ, skipping the
+ * jolt of pressing record. Footage that never settles starts at zero.
+ */
+export async function autoTrim(video: HTMLVideoElement, clipSeconds = DEFAULT_CLIP_SECONDS): Promise<VideoTrim> {
+  const duration = video.duration;
+  const length = Math.min(clipSeconds, duration);
+  const latestStart = duration - length;
+  let start = 0;
+
+  if (latestStart > 0) {
+    const step = 1 / STABILITY_SAMPLES_PER_SECOND;
+    const scanEnd = Math.min(latestStart, STABILITY_SCAN_SECONDS);
+    let previous: Float32Array | null = null;
+    for (let t = 0; t <= scanEnd + SEEK_TOLERANCE_SECONDS; t += step) {
+      await seekVideo(video, t);
+      const current = lumaThumbnail(video);
+      if (previous && meanDifference(previous, current) < STABLE_DIFFERENCE) {
+        start = Math.max(0, t - step);
+        break;
+      }
+      previous = current;
+    }
+  }
+
+  return { startSeconds: start, endSeconds: start + length };
+}
+
+/**
+ * Clamp a user-chosen window to the clip, keeping it between
+ * MIN_CLIP_SECONDS and MAX_CLIP_SECONDS long where the clip allows.
+ */
+export function clampTrim(trim: VideoTrim, durationSeconds: number): VideoTrim {
+  const length = Math.min(
+    durationSeconds,
+    Math.max(MIN_CLIP_SECONDS, Math.min(MAX_CLIP_SECONDS, trim.endSeconds - trim.startSeconds))
+  );
+  const startSeconds = Math.max(0, Math.min(trim.startSeconds, durationSeconds - length));
+  return { startSeconds, endSeconds: startSeconds + length };
+}
+
+/**
+ * JPEG frames spread evenly through the trim window, for the sequencing and
+ * vision endpoints, which only look at stills.
+ */
+export async function sampleFrames(file: File, trim: VideoTrim, count: number, maxEdge: number): Promise<Blob[]> {
+  const video = await loadVideo(file);
+  try {
+    const frames: Blob[] = [];
+    const length = trim.endSeconds - trim.startSeconds;
+    for (let i = 0; i < count; i++) {
+      await seekVideo(video, trim.startSeconds + ((i + 0.5) / count) * length);
+      frames.push(await captureJpeg(video, maxEdge));
+    }
+    return frames;
+  } finally {
+    releaseVideo(video);
+  }
+}
+
+function findBox(bytes: Uint8Array, type: string): number {
+  const codes = Array.from(type, ch => ch.charCodeAt(0));
+  for (let i = 4; i + codes.length <= bytes.length; i++) {
+    if (codes.every((code, j) => bytes[i + j] === code)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Creation time from the movie header (mvhd) of an MP4 or QuickTime file.
+ * The header sits at the start of streamable files and at the end of most
+ * camera recordings, so both ends are scanned.
+ */
+async function readCreationTime(file: File): Promise<number | undefined> {
+  const windows = [file.slice(0, METADATA_SCAN_BYTES), file.slice(Math.max(0, file.size - METADATA_SCAN_BYTES))];
+  for (const window of windows) {
+    const bytes = new Uint8Array(await window.arrayBuffer());
+    const at = findBox(bytes, 'mvhd');
+    if (at < 0 || at + 16 > bytes.length) continue;
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const version = view.getUint8(at + 4);
+    const seconds = version === 1
+      ? view.getUint32(at + 8) * 2 ** 32 + view.getUint32(at + 12)
+      : view.getUint32(at + 8);
+    // Zero means the recorder never set it
+    return seconds > MAC_EPOCH_OFFSET_SECONDS ? (seconds - MAC_EPOCH_OFFSET_SECONDS) * 1000 : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Read a clip's size, trim window, poster and capture time. `still` is
+ * the already ingested Live Photo still, whose EXIF wins over the clip's
+ * header.
+ */
+export async function ingestVideo(file: File, still?: IngestedPhoto): Promise<IngestedPhoto> {
+  const video = await loadVideo(file);
+  try {
+    const trim = await autoTrim(video);
+    let poster = still?.file;
+    if (!poster) {
+      await seekVideo(video, trim.startSeconds);
+      const name = file.name.replace(/\.[^.]+$/, '') + '-poster.jpg';
+      poster = new File([await captureJpeg(video, POSTER_MAX_EDGE)], name, { type: 'image/jpeg', lastModified: file.lastModified });
+    }
+
+    let capturedAt = still?.metadata.capturedAt;
+    if (capturedAt === undefined) {
+      try {
+        capturedAt = await readCreationTime(file);
+      } catch (err) {
+        console.warn('[INGEST] Video header unreadable:', file.name, err);
+      }
+    }
+    const metadata: PhotoMetadata = { ...still?.metadata, capturedAt };
+
+    return {
+      file,
+      original: file,
+      metadata,
+      video: {
+        durationSeconds: video.duration,
+        width: video.videoWidth,
+        height: video.videoHeight,
+        poster,
+        trim,
+        livePhoto: !!still
+      }
+    };
+  } finally {
+    releaseVideo(video);
+  }
+}